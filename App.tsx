@@ -1,41 +1,98 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Mic, List, Loader2, Sparkles, AlertCircle, Trash2, Edit2, Folder, FolderOpen, X, Check, StopCircle, ChevronUp } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Mic, List, Loader2, Sparkles, AlertCircle, Trash2, Edit2, Folder, FolderOpen, X, Check, StopCircle, ChevronUp, Settings, Pause, Play, LifeBuoy, Search, Upload, Layers, BookA, LayoutDashboard, MessageCircle, Flag, HardDrive, CalendarDays, BellRing } from 'lucide-react';
 import Recorder from './components/Recorder';
 import NoteDetail from './components/NoteDetail';
-import { Recording } from './types';
-import { analyzeLectureAudio } from './services/geminiService';
-import { formatTime, formatDate } from './utils/audioUtils';
-import { saveAudio, deleteAudio, getAudio } from './services/storageService';
+import SettingsModal from './components/SettingsModal';
+import SearchResults from './components/SearchResults';
+import StudyMode from './components/StudyMode';
+import PracticeExam from './components/PracticeExam';
+import GlossaryView from './components/GlossaryView';
+import CourseOverview from './components/CourseOverview';
+import ChatPanel from './components/ChatPanel';
+import StorageManager from './components/StorageManager';
+import TimetableView from './components/TimetableView';
+import { AnalysisJob, AppSettings, CardReview, ChatCitation, ChatMessage, CourseDigest, Flashcard, LectureMarker, NoteData, NoteFocus, NoteSection, QuizAttempt, Recording, RecordingSession, SilenceRange } from './types';
+import { analyzeLectureAudio, gradeAnswers } from './services/analysisService';
+import { createAnalysisProvider, loadSettings, resolveAnalysisPreferences, saveSettings } from './services/settingsService';
+import { buildSearchIndex, SearchHit } from './services/searchService';
+import { createBackup, restoreBackup } from './services/backupService';
+import { compressSpeechAudio, ProcessedAudio } from './utils/audioProcessing';
+import { formatTime, formatDate, getAudioDuration, getImportMimeType, stripExtension, SUPPORTED_IMPORT_EXTENSIONS } from './utils/audioUtils';
+import { saveAudio, deleteAudio, getAudio, getRecordingSessions, getSessionAudio, deleteRecordingSession, recordingRepository, cardReviewRepository, courseDigestRepository, noteRevisionRepository, analysisJobRepository } from './services/storageService';
+import { recordAnalysis, recordEdit } from './services/revisionService';
+import { buildFlashcards, getDueCards } from './services/studyService';
+import { buildGlossary } from './services/glossaryService';
+import { getDigestChanges, updateCourseDigest } from './services/digestService';
+import { askLectures } from './services/chatService';
+import { getExpiredAudio } from './services/retentionService';
+import { createAnalysisQueue, getQueuePosition } from './services/analysisQueue';
+import { ANALYSIS_ERRORS, AnalysisError, classifyAnalysisError } from './services/analysisErrors';
+import { describeScheduledClass, findClassAt, toDateString } from './services/timetableService';
+import { applyReview, createReview, ReviewQuality } from './utils/sm2';
+import { transcriptToText } from './utils/transcriptUtils';
+import { mergeAnalysisResult } from './utils/noteUtils';
 import { useAudioRecorder } from './hooks/useAudioRecorder';
 
+type StudyScope =
+  | { kind: 'recording'; recordingId: string }
+  | { kind: 'subject'; subject: string }
+  | { kind: 'all' };
+
 // Mock UUID if uuid package isn't available
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
 function App() {
-  const [recordings, setRecordings] = useState<Recording[]>(() => {
-    if (typeof window === 'undefined') return [];
-    
-    const savedData = localStorage.getItem('profnote-recordings');
-    if (savedData) {
-      try {
-        const parsedData = JSON.parse(savedData);
-        return parsedData.map((item: any) => ({
-          ...item,
-          subject: item.subject || '기타', // Migration for old data
-          date: new Date(item.date),
-          status: item.status === 'processing' ? 'error' : item.status,
-          errorMessage: item.status === 'processing' ? '녹음 처리 중 페이지가 새로고침되어 중단되었습니다.' : item.errorMessage
-        }));
-      } catch (error) {
-        console.error("Failed to load recordings from storage:", error);
-        return [];
-      }
-    }
-    return [];
-  });
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Last version of each recording written to IndexedDB, used to persist only what changed
+  const persistedRef = useRef<Map<string, Recording>>(new Map());
+
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  // Latest values for work that outlives a render (the analysis queue)
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const recordingsRef = useRef(recordings);
+  recordingsRef.current = recordings;
+  const [analysisJobs, setAnalysisJobs] = useState<AnalysisJob[]>([]);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // Recording sessions left behind by a crash or refresh
+  const [unfinishedSessions, setUnfinishedSessions] = useState<RecordingSession[]>([]);
 
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [view, setView] = useState<'home' | 'recording'>('home');
+  const [noteFocus, setNoteFocus] = useState<NoteFocus | null>(null);
+
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Flashcard Study State
+  const [cardReviews, setCardReviews] = useState<Map<string, CardReview>>(new Map());
+  const [studyScope, setStudyScope] = useState<StudyScope | null>(null);
+
+  // Practice Exam State
+  const [quizRecordingId, setQuizRecordingId] = useState<string | null>(null);
+
+  // Subject whose glossary is open
+  const [glossarySubject, setGlossarySubject] = useState<string | null>(null);
+
+  // Course Digest State
+  const [courseDigests, setCourseDigests] = useState<Map<string, CourseDigest>>(new Map());
+  const [digestStatus, setDigestStatus] = useState<Record<string, 'updating' | 'error'>>({});
+  const [overviewSubject, setOverviewSubject] = useState<string | null>(null);
+
+  // Lecture Chat State (kept for the session while the panel is closed)
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  const [isTimetableOpen, setIsTimetableOpen] = useState(false);
+  // Class reminders closed today, keyed by slot id and date
+  const [dismissedReminders, setDismissedReminders] = useState<Set<string>>(new Set());
+  const [clock, setClock] = useState(() => new Date());
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+
+  // File Import State
+  const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Edit Modal State
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -45,84 +102,298 @@ function App() {
   // Expanded Folders State (Default all open)
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['기타']));
 
+  // Compression is best effort: if it fails the audio is kept as recorded
+  const compressAudio = async (blob: Blob): Promise<ProcessedAudio> => {
+    try {
+      return await compressSpeechAudio(blob, settings.audioQuality);
+    } catch (error) {
+      console.error("Failed to compress audio:", error);
+      return { blob, originalSize: blob.size };
+    }
+  };
+
+  const audioSizeFields = ({ blob, originalSize }: ProcessedAudio): Pick<Recording, 'audioSize' | 'originalAudioSize'> => ({
+    audioSize: blob.size,
+    originalAudioSize: blob.size < originalSize ? originalSize : undefined,
+  });
+
   // --- Logic for Recording ---
   // We lift the state up so recording continues even if view changes
-  const handleRecordingCompleteCallback = async (blob: Blob, duration: number) => {
+  const handleRecordingCompleteCallback = async (blob: Blob, duration: number, startedAt: Date, markers: LectureMarker[], silences: SilenceRange[]) => {
     const newId = generateId();
+    // Recordings made during a class in the timetable are filed and named after it
+    const scheduled = describeScheduledClass(settings.timetable, settings.semesterStart, startedAt);
     const newRecording: Recording = {
       id: newId,
-      title: `강의 녹음 ${recordings.length + 1}`,
-      subject: '기타', // Default folder
-      date: new Date(),
+      title: scheduled?.title || `강의 녹음 ${recordings.length + 1}`,
+      customTitle: scheduled ? true : undefined,
+      subject: scheduled?.subject || '기타', // Default folder
+      date: startedAt,
       duration,
       audioBlob: blob, // In-memory
       status: 'processing',
+      markers: markers.length > 0 ? markers : undefined,
+      silences: silences.length > 0 ? silences : undefined,
     };
 
     setRecordings(prev => [newRecording, ...prev]);
+    setExpandedFolders(prev => new Set(prev).add(newRecording.subject));
     setView('home');
 
+    const processed = await compressAudio(blob);
+    setRecordings(prev => prev.map(rec => rec.id === newId ? { ...rec, audioBlob: processed.blob, ...audioSizeFields(processed) } : rec));
+
     // Persist audio to IndexedDB
+    let saveError: unknown = null;
     try {
-      await saveAudio(newId, blob);
+      await saveAudio(newId, processed.blob);
     } catch (error) {
       console.error("Failed to save audio to storage:", error);
+      saveError = error;
     }
     
-    processAnalysis(newId, blob);
+    enqueueAnalysis({ ...newRecording, audioBlob: processed.blob, ...audioSizeFields(processed) });
+
+    // Rejecting keeps the crash-recovery copy of this recording in IndexedDB
+    if (saveError) throw saveError;
+  };
+
+  // Imports lecture audio from files (phone recorder, LMS downloads) one by one
+  // and sends each through the same analysis flow as a live recording
+  const importAudioFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    const skipped: string[] = [];
+    setImportProgress({ done: 0, total: files.length });
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const mimeType = getImportMimeType(file);
+
+      if (!mimeType) {
+        skipped.push(`${file.name} (지원하지 않는 형식)`);
+      } else {
+        try {
+          const original = new Blob([file], { type: mimeType });
+          const processed = await compressAudio(original);
+          // Compression already decoded the file unless it was skipped or failed
+          const duration = processed.duration ?? await getAudioDuration(original);
+          const blob = processed.blob;
+          const newId = generateId();
+          await saveAudio(newId, blob);
+
+          const imported: Recording = {
+            id: newId,
+            title: stripExtension(file.name),
+            subject: '기타',
+            date: new Date(file.lastModified || Date.now()),
+            duration,
+            audioBlob: blob,
+            status: 'processing',
+            ...audioSizeFields(processed),
+          };
+          setRecordings(prev => [imported, ...prev]);
+          enqueueAnalysis(imported);
+        } catch (error) {
+          console.error(`Failed to import ${file.name}:`, error);
+          skipped.push(`${file.name} (오디오를 읽을 수 없음)`);
+        }
+      }
+
+      setImportProgress({ done: i + 1, total: files.length });
+    }
+
+    setImportProgress(null);
+    if (!expandedFolders.has('기타')) {
+      setExpandedFolders(prev => new Set(prev).add('기타'));
+    }
+    if (skipped.length > 0) {
+      window.alert(`다음 파일을 가져오지 못했습니다:\n${skipped.join('\n')}`);
+    }
   };
 
-  const processAnalysis = async (id: string, blob: Blob) => {
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files as ArrayLike<File>) : [];
+    e.target.value = ''; // Allow picking the same file again
+    importAudioFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    importAudioFiles(Array.from(e.dataTransfer.files as ArrayLike<File>));
+  };
+
+  const recoverSession = async (session: RecordingSession) => {
     try {
-      const result = await analyzeLectureAudio(blob);
-      setRecordings(prev => prev.map(rec => 
-        rec.id === id 
-          ? { ...rec, status: 'completed', data: result, title: extractTitle(result.summary) || rec.title } 
-          : rec
-      ));
+      const blob = await getSessionAudio(session);
+      if (blob.size > 0) {
+        const newId = generateId();
+        await saveAudio(newId, blob);
+        const scheduled = describeScheduledClass(settings.timetable, settings.semesterStart, new Date(session.startedAt));
+        const recovered: Recording = {
+          id: newId,
+          title: scheduled ? `${scheduled.title} (복구됨)` : `복구된 녹음 ${formatDate(session.startedAt)}`,
+          customTitle: scheduled ? true : undefined,
+          subject: scheduled?.subject || '기타',
+          date: new Date(session.startedAt),
+          duration: session.duration,
+          status: 'recorded',
+          audioSize: blob.size,
+          markers: session.markers?.length ? session.markers : undefined,
+          silences: session.silences?.length ? session.silences : undefined,
+        };
+        setRecordings(prev => [recovered, ...prev]);
+        setSelectedId(newId);
+        setView('home');
+      } else {
+        window.alert('복구할 수 있는 오디오가 없습니다.');
+      }
+      await deleteRecordingSession(session.id);
+      setUnfinishedSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (error) {
+      console.error("Failed to recover recording session:", error);
+      window.alert('녹음을 복구하지 못했습니다.');
+    }
+  };
+
+  const discardSession = async (session: RecordingSession) => {
+    if (!window.confirm('중단된 녹음을 삭제하시겠습니까? 복구할 수 없습니다.')) return;
+    try {
+      await deleteRecordingSession(session.id);
+      setUnfinishedSessions(prev => prev.filter(s => s.id !== session.id));
     } catch (error) {
+      console.error("Failed to discard recording session:", error);
+    }
+  };
+
+  // Runs inside the analysis queue, which outlives any single render: the
+  // recording is read back from IndexedDB and settings through a ref
+  const runAnalysisJob = async (id: string, signal: AbortSignal) => {
+    const recording = await recordingRepository.get(id);
+    if (!recording) return; // deleted while queued
+
+    const blob = recordingsRef.current.find(rec => rec.id === id)?.audioBlob || await getAudio(id);
+    if (!blob) throw new AnalysisError('invalid-input', `No audio stored for recording ${id}`);
+
+    const currentSettings = settingsRef.current;
+    const incomplete = new Set<NoteSection>();
+    const result = await analyzeLectureAudio(createAnalysisProvider(currentSettings), blob, {
+      preferences: resolveAnalysisPreferences(currentSettings, recording.subject),
+      markers: recording.markers,
+      silences: recording.silences,
+      duration: recording.duration,
+      signal,
+      onIncomplete: (sections) => sections.forEach(section => incomplete.add(section)),
+      onProgress: (progress) => {
+        setRecordings(prev => prev.map(rec => rec.id === id ? { ...rec, progress } : rec));
+      }
+    });
+    if (signal.aborted) return;
+
+    // Re-analyzing a note must not lose the student's own additions to it
+    const previous = recordingsRef.current.find(rec => rec.id === id)?.data ?? recording.data;
+    const data = mergeAnalysisResult(previous, result);
+    recordAnalysis(id, data).catch(error => console.error("Failed to save note revision:", error));
+    setRecordings(prev => prev.map(rec => 
+      rec.id === id 
+        ? {
+          ...rec,
+          status: 'completed',
+          data,
+          progress: undefined,
+          incompleteSections: incomplete.size > 0 ? [...incomplete] : undefined,
+          // Only default and file-name titles give way to the summary's heading
+          title: rec.customTitle ? rec.title : extractTitle(result.summary) || rec.title,
+        }
+        : rec
+    ));
+  };
+
+  const [analysisQueue] = useState(() => createAnalysisQueue({
+    concurrency: settings.analysisConcurrency,
+    run: (id, signal) => runAnalysisJob(id, signal),
+    onFailed: (id, error) => {
       console.error(error);
+      const errorKind = classifyAnalysisError(error);
+      // A failed re-analysis leaves the existing note in place; NoteDetail shows the error above it
       setRecordings(prev => prev.map(rec => 
         rec.id === id 
-          ? { ...rec, status: 'error', errorMessage: 'AI 분석 중 오류가 발생했습니다.' } 
+          ? { ...rec, status: rec.data ? 'completed' : 'error', progress: undefined, errorKind, errorMessage: ANALYSIS_ERRORS[errorKind].label } 
           : rec
       ));
+    },
+    onChange: setAnalysisJobs,
+  }));
+
+  useEffect(() => {
+    analysisQueue.setConcurrency(settings.analysisConcurrency);
+  }, [settings.analysisConcurrency]);
+
+  // The recording is saved first because the queue reads it back from IndexedDB
+  const enqueueAnalysis = async (recording: Recording) => {
+    try {
+      await recordingRepository.save(recording);
+    } catch (error) {
+      console.error("Failed to save recording:", error);
     }
+    analysisQueue.enqueue(recording.id);
   };
 
-  const handleRetryAnalysis = async (id: string) => {
+  const handleRetryAnalysis = (id: string) => {
     const recording = recordings.find(r => r.id === id);
     if (!recording) return;
 
-    // Set status to processing
-    setRecordings(prev => prev.map(r => r.id === id ? { ...r, status: 'processing', errorMessage: undefined } : r));
+    const queued: Recording = { ...recording, status: 'processing', errorMessage: undefined, errorKind: undefined, progress: undefined };
+    setRecordings(prev => prev.map(r => r.id === id ? queued : r));
+    enqueueAnalysis(queued);
+  };
 
-    try {
-      // Try to get audio from memory or DB
-      let blob = recording.audioBlob;
-      if (!blob) {
-        blob = await getAudio(id);
-      }
+  const handleCancelAnalysis = (id: string) => {
+    analysisQueue.cancel(id);
+    setRecordings(prev => prev.map(r => r.id === id ? { ...r, status: r.data ? 'completed' : 'recorded', progress: undefined } : r));
+  };
 
-      if (blob) {
-        await processAnalysis(id, blob);
-      } else {
-        throw new Error("오디오 파일을 찾을 수 없습니다.");
-      }
-    } catch (error) {
-      console.error("Retry failed:", error);
-      setRecordings(prev => prev.map(r => r.id === id ? { ...r, status: 'error', errorMessage: '오디오 파일을 불러올 수 없어 분석에 실패했습니다.' } : r));
-    }
+  const analysisLabel = (id: string) => {
+    const job = analysisJobs.find(j => j.recordingId === id);
+    if (job?.state !== 'waiting') return 'AI 분석 중...';
+    return job.nextAttemptAt ? '다시 시도 대기 중' : `대기 중 · ${getQueuePosition(analysisJobs, id)}번째`;
   };
 
   const {
     isRecording,
+    isPaused,
+    isAutoPaused,
     duration,
     permissionError,
+    markers,
     analyser,
     startRecording,
-    stopRecording
-  } = useAudioRecorder({ onRecordingComplete: handleRecordingCompleteCallback });
+    stopRecording,
+    pauseRecording,
+    resumeRecording,
+    addMarker,
+    updateMarker,
+    removeMarker
+  } = useAudioRecorder({ onRecordingComplete: handleRecordingCompleteCallback, autoPauseOnSilence: settings.autoPauseOnSilence });
+
+  // Ticks while a timetable is set so the class reminder shows up on time
+  useEffect(() => {
+    if (settings.timetable.length === 0) return;
+    setClock(new Date());
+    const timer = window.setInterval(() => setClock(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, [settings.timetable.length]);
+
+  const currentClass = isRecording ? null : findClassAt(settings.timetable, clock);
+  const reminderKey = currentClass ? `${currentClass.id}:${toDateString(clock)}` : null;
+
+  const startScheduledRecording = () => {
+    closePanels();
+    setSelectedId(null);
+    setView('recording');
+    startRecording();
+  };
 
   const toggleRecording = () => {
     if (isRecording) {
@@ -132,15 +403,69 @@ function App() {
     }
   };
 
+  const togglePause = () => {
+    if (isPaused) {
+      resumeRecording();
+    } else {
+      pauseRecording();
+    }
+  };
+
   useEffect(() => {
-    // Initial expansion of all folders found in data
-    const subjects = new Set(recordings.map(r => r.subject));
-    setExpandedFolders(subjects);
+    recordingRepository.getAll()
+      .then(async saved => {
+        persistedRef.current = new Map(saved.map(rec => [rec.id, rec]));
+        // Keep anything created while loading (e.g. a recovered session)
+        setRecordings(prev => [...prev, ...saved.filter(rec => !prev.some(p => p.id === rec.id))]);
+        // Initial expansion of all folders found in data
+        setExpandedFolders(new Set(saved.map(r => r.subject)));
+
+        // Analyses interrupted by a reload pick up where the queue left off
+        const jobs = await analysisJobRepository.getAll().catch(error => {
+          console.error("Failed to load analysis jobs:", error);
+          return [];
+        });
+        const processing = saved.filter(rec => rec.status === 'processing');
+        processing.forEach(rec => analysisQueue.enqueue(rec.id, jobs.find(job => job.recordingId === rec.id)));
+        jobs
+          .filter(job => !processing.some(rec => rec.id === job.recordingId))
+          .forEach(job => analysisJobRepository.remove(job.recordingId).catch(error => console.error("Failed to remove analysis job:", error)));
+      })
+      .catch(error => console.error("Failed to load recordings from storage:", error))
+      .finally(() => setIsLoaded(true));
+
+    cardReviewRepository.getAll()
+      .then(reviews => setCardReviews(new Map(reviews.map(r => [r.cardId, r]))))
+      .catch(error => console.error("Failed to load flashcard reviews:", error));
+
+    courseDigestRepository.getAll()
+      .then(digests => setCourseDigests(new Map(digests.map(d => [d.subject, d]))))
+      .catch(error => console.error("Failed to load course digests:", error));
+
+    getRecordingSessions()
+      .then(setUnfinishedSessions)
+      .catch(error => console.error("Failed to check for unfinished recordings:", error));
   }, []); 
 
   useEffect(() => {
-    localStorage.setItem('profnote-recordings', JSON.stringify(recordings));
-  }, [recordings]);
+    if (!isLoaded) return;
+
+    const previous = persistedRef.current;
+    const next = new Map(recordings.map(rec => [rec.id, rec]));
+
+    recordings.forEach(rec => {
+      if (previous.get(rec.id) !== rec) {
+        recordingRepository.save(rec).catch(error => console.error("Failed to save recording:", error));
+      }
+    });
+    previous.forEach((_, id) => {
+      if (!next.has(id)) {
+        recordingRepository.remove(id).catch(error => console.error("Failed to delete recording:", error));
+      }
+    });
+
+    persistedRef.current = next;
+  }, [recordings, isLoaded]);
 
   const deleteRecording = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
@@ -148,12 +473,14 @@ function App() {
     e.nativeEvent.stopImmediatePropagation();
     
     if (window.confirm('정말 이 강의 노트를 삭제하시겠습니까? 복구할 수 없습니다.')) {
+      analysisQueue.cancel(id);
       setRecordings(prev => prev.filter(r => r.id !== id));
       if (selectedId === id) {
         setSelectedId(null);
       }
       try {
         await deleteAudio(id);
+        await noteRevisionRepository.removeByRecording(id);
       } catch (error) {
         console.error("Failed to delete audio from storage:", error);
       }
@@ -173,7 +500,12 @@ function App() {
     if (!editingId) return;
     setRecordings(prev => prev.map(rec => 
       rec.id === editingId 
-        ? { ...rec, title: editTitle, subject: editSubject.trim() || '기타' }
+        ? {
+          ...rec,
+          title: editTitle,
+          customTitle: rec.customTitle || editTitle !== rec.title || undefined,
+          subject: editSubject.trim() || '기타',
+        }
         : rec
     ));
     setEditingId(null);
@@ -183,6 +515,95 @@ function App() {
     }
   };
 
+  const handleSaveSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+    setIsSettingsOpen(false);
+  };
+
+  const handleChangeTimetable = (changes: Partial<Pick<AppSettings, 'timetable' | 'semesterStart'>>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handleChangeRetention = (audioRetentionDays: number | null) => {
+    const next = { ...settings, audioRetentionDays };
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Drops the audio but keeps the note; the recording can no longer be played or re-analyzed
+  const handleDiscardAudio = (ids: string[]) => {
+    const discarded = new Set(ids);
+    const now = new Date();
+    setRecordings(prev => prev.map(rec => discarded.has(rec.id)
+      ? { ...rec, audioBlob: undefined, audioSize: undefined, originalAudioSize: undefined, audioDiscardedAt: now }
+      : rec
+    ));
+    ids.forEach(id => {
+      deleteAudio(id).catch(error => console.error("Failed to delete audio from storage:", error));
+    });
+  };
+
+  // Applies the retention rule on load and whenever recordings or the rule change
+  useEffect(() => {
+    if (!isLoaded) return;
+    const expired = getExpiredAudio(recordings, settings.audioRetentionDays);
+    if (expired.length > 0) handleDiscardAudio(expired.map(rec => rec.id));
+  }, [recordings, settings.audioRetentionDays, isLoaded]);
+
+  const handleBackup = async () => {
+    try {
+      const archive = await createBackup(recordings);
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `profnote_backup_${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to create backup:", error);
+      window.alert('백업 파일을 만들지 못했습니다.');
+    }
+  };
+
+  const handleRestore = async (file: File) => {
+    try {
+      const result = await restoreBackup(file, recordings);
+      setRecordings(prev => [...result.added, ...prev].sort((a, b) => b.date.getTime() - a.date.getTime()));
+      setCardReviews(prev => {
+        const next = new Map(prev);
+        result.addedReviews.forEach(review => next.set(review.cardId, review));
+        return next;
+      });
+      setCourseDigests(prev => {
+        const next = new Map(prev);
+        result.addedDigests.forEach(digest => next.set(digest.subject, digest));
+        return next;
+      });
+      setExpandedFolders(prev => {
+        const next = new Set(prev);
+        result.added.forEach(rec => next.add(rec.subject));
+        return next;
+      });
+
+      const lines = [
+        `${result.added.length}개의 강의를 복원했습니다.`,
+        result.unchanged > 0 ? `${result.unchanged}개는 이미 같은 내용이 있어 건너뛰었습니다.` : '',
+        result.conflicts.length > 0
+          ? `다음 ${result.conflicts.length}개는 기존 노트와 내용이 달라 기존 노트를 유지했습니다:\n${result.conflicts.map(c => `- ${c.title}`).join('\n')}`
+          : '',
+      ];
+      window.alert(lines.filter(Boolean).join('\n'));
+    } catch (error) {
+      console.error("Failed to restore backup:", error);
+      window.alert(error instanceof Error ? `백업을 복원하지 못했습니다: ${error.message}` : '백업을 복원하지 못했습니다.');
+    }
+  };
+
   const toggleFolder = (subject: string) => {
     setExpandedFolders(prev => {
       const next = new Set(prev);
@@ -201,6 +622,7 @@ function App() {
   };
 
   const selectedRecording = recordings.find(r => r.id === selectedId);
+  const quizRecording = recordings.find(r => r.id === quizRecordingId);
 
   const groupedRecordings = useMemo(() => {
     const groups: Record<string, Recording[]> = {};
@@ -214,14 +636,242 @@ function App() {
 
   const sortedSubjects = Object.keys(groupedRecordings).sort();
 
+  const isSearching = searchQuery.trim().length > 0;
+
+  // Built only while searching, and rebuilt when any note changes
+  const searchIndex = useMemo(
+    () => isSearching ? buildSearchIndex(recordings) : null,
+    [recordings, isSearching]
+  );
+
+  const searchHits = useMemo(
+    () => searchIndex ? searchIndex.search(searchQuery) : [],
+    [searchIndex, searchQuery]
+  );
+
+  const glossary = useMemo(
+    () => glossarySubject ? buildGlossary(groupedRecordings[glossarySubject] || []) : [],
+    [groupedRecordings, glossarySubject]
+  );
+
+  const flashcards = useMemo(() => buildFlashcards(recordings), [recordings]);
+  const dueCards = useMemo(() => getDueCards(flashcards, cardReviews), [flashcards, cardReviews]);
+
+  const studyCards = (scope: StudyScope): Flashcard[] => {
+    switch (scope.kind) {
+      case 'recording':
+        return dueCards.filter(card => card.recordingId === scope.recordingId);
+      case 'subject':
+        return dueCards.filter(card => card.subject === scope.subject);
+      default:
+        return dueCards;
+    }
+  };
+
+  const studyTitle = (scope: StudyScope): string => {
+    switch (scope.kind) {
+      case 'recording':
+        return `${recordings.find(r => r.id === scope.recordingId)?.title || ''} 플래시카드`;
+      case 'subject':
+        return `${scope.subject} 플래시카드`;
+      default:
+        return '오늘의 복습';
+    }
+  };
+
+  const handleCardReview = (card: Flashcard, quality: ReviewQuality) => {
+    const updated = applyReview(cardReviews.get(card.id) || createReview(card.id), quality);
+    setCardReviews(prev => new Map(prev).set(card.id, updated));
+    cardReviewRepository.save(updated).catch(error => console.error("Failed to save flashcard review:", error));
+  };
+
+  const handleSaveNote = (recording: Recording, data: NoteData, source: 'edit' | 'revert') => {
+    const previous = recording.data;
+    setRecordings(prev => prev.map(rec => rec.id === recording.id ? { ...rec, data } : rec));
+    if (previous) {
+      recordEdit(recording.id, previous, data, source).catch(error => console.error("Failed to save note revision:", error));
+    }
+  };
+
+  // An empty name goes back to the default label ("교수님", "학생 1", ...)
+  const handleRenameSpeaker = (id: string, speaker: string, name: string) => {
+    setRecordings(prev => prev.map(rec => {
+      if (rec.id !== id || !rec.data) return rec;
+      const speakerNames = { ...rec.data.speakerNames };
+      if (name) speakerNames[speaker] = name;
+      else delete speakerNames[speaker];
+      return { ...rec, data: { ...rec.data, speakerNames } };
+    }));
+  };
+
+  const handleSubmitQuiz = async (recording: Recording, answers: string[]): Promise<QuizAttempt> => {
+    const questions = recording.data?.examQuestions || [];
+    const graded = await gradeAnswers(
+      createAnalysisProvider(settings),
+      transcriptToText(recording.data?.transcript || [], recording.data?.speakerNames || {}),
+      questions.map((question, i) => ({ question, answer: answers[i] || '' })),
+      resolveAnalysisPreferences(settings, recording.subject).language
+    );
+
+    const results = graded.map((result, i) => ({
+      questionIndex: i,
+      question: questions[i].question,
+      modelAnswer: questions[i].answer,
+      answer: answers[i] || '',
+      ...result,
+    }));
+    const attempt: QuizAttempt = {
+      id: generateId(),
+      date: new Date(),
+      results,
+      totalScore: results.length > 0 ? Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length) : 0,
+    };
+
+    setRecordings(prev => prev.map(rec =>
+      rec.id === recording.id ? { ...rec, quizAttempts: [...(rec.quizAttempts || []), attempt] } : rec
+    ));
+    return attempt;
+  };
+
+  // Study, quiz and glossary screens take over the main area until closed
+  const isPanelOpen = !!studyScope || !!quizRecordingId || !!glossarySubject || !!overviewSubject || isChatOpen || isStorageOpen || isTimetableOpen;
+
+  const closePanels = () => {
+    setStudyScope(null);
+    setQuizRecordingId(null);
+    setGlossarySubject(null);
+    setOverviewSubject(null);
+    setIsChatOpen(false);
+    setIsStorageOpen(false);
+    setIsTimetableOpen(false);
+  };
+
+  const handleAsk = async (question: string) => {
+    const userMessage: ChatMessage = { id: generateId(), role: 'user', text: question, citations: [] };
+    const history = chatMessages;
+    setChatMessages(prev => [...prev, userMessage]);
+
+    try {
+      const answer = await askLectures(
+        createAnalysisProvider(settings),
+        buildSearchIndex(recordings),
+        recordings,
+        question,
+        history,
+        settings.analysis.language
+      );
+      setChatMessages(prev => [...prev, { ...answer, id: generateId() }]);
+    } catch (error) {
+      // The panel puts the question back into the input for another try
+      setChatMessages(prev => prev.filter(m => m.id !== userMessage.id));
+      throw error;
+    }
+  };
+
+  const openCitation = (citation: ChatCitation) => {
+    closePanels();
+    setSelectedId(citation.recordingId);
+    setNoteFocus({ field: 'transcript', index: citation.segmentIndex, nonce: Date.now() });
+  };
+
+  const refreshDigest = async (subject: string, rebuild: boolean) => {
+    setDigestStatus(prev => ({ ...prev, [subject]: 'updating' }));
+    try {
+      const digest = await updateCourseDigest(
+        createAnalysisProvider(settings),
+        subject,
+        groupedRecordings[subject] || [],
+        resolveAnalysisPreferences(settings, subject).language,
+        rebuild ? undefined : courseDigests.get(subject)
+      );
+      setCourseDigests(prev => new Map(prev).set(subject, digest));
+      courseDigestRepository.save(digest).catch(error => console.error("Failed to save course digest:", error));
+      setDigestStatus(({ [subject]: _, ...rest }) => rest);
+    } catch (error) {
+      console.error("Failed to update course digest:", error);
+      setDigestStatus(prev => ({ ...prev, [subject]: 'error' }));
+    }
+  };
+
+  // Fold newly analyzed lectures into existing digests. Other changes (deleted or
+  // re-analyzed lectures) need a full rebuild, which the user starts from the overview.
+  useEffect(() => {
+    if (!isLoaded) return;
+    courseDigests.forEach((digest, subject) => {
+      if (digestStatus[subject]) return;
+      const { added, needsRebuild } = getDigestChanges(digest, groupedRecordings[subject] || []);
+      if (added.length > 0 && !needsRebuild) refreshDigest(subject, false);
+    });
+  }, [groupedRecordings, courseDigests, isLoaded]);
+
+  const overviewDigest = overviewSubject ? courseDigests.get(overviewSubject) : undefined;
+
+  const openGlossaryTerm = (recordingId: string, termIndex: number) => {
+    closePanels();
+    setSelectedId(recordingId);
+    setNoteFocus({ field: 'keyTerm', index: termIndex, nonce: Date.now() });
+  };
+
+  const openSearchHit = (hit: SearchHit) => {
+    closePanels();
+    setSelectedId(hit.recordingId);
+    setNoteFocus({ field: hit.field, index: hit.index, nonce: Date.now() });
+    setView('home');
+  };
+
   return (
     <div className="flex h-screen bg-slate-50 relative overflow-hidden">
       {/* Sidebar / List View */}
-      <aside className={`w-full md:w-80 bg-white border-r border-slate-200 flex-col flex ${selectedId ? 'hidden md:flex' : 'flex'} ${view === 'recording' ? 'hidden md:flex' : ''}`}>
+      <aside
+        className={`relative w-full md:w-80 bg-white border-r border-slate-200 flex-col flex ${selectedId ? 'hidden md:flex' : 'flex'} ${view === 'recording' || isPanelOpen ? 'hidden md:flex' : ''}`}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+        }}
+        onDrop={handleDrop}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-2 z-30 flex flex-col items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-indigo-400 bg-indigo-50/90 text-indigo-700 pointer-events-none">
+            <Upload size={32} />
+            <p className="font-medium">오디오 파일을 놓아 가져오기</p>
+            <p className="text-xs text-indigo-500">{SUPPORTED_IMPORT_EXTENSIONS.join(', ')}</p>
+          </div>
+        )}
         <div className="p-5 border-b border-slate-100 bg-white">
           <div className="flex items-center gap-2 mb-1">
             <Sparkles className="text-indigo-600" size={24} />
             <h1 className="text-xl font-bold text-slate-800">ProfNote AI</h1>
+            <button
+              onClick={() => {
+                closePanels();
+                setIsTimetableOpen(true);
+              }}
+              className="ml-auto p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-colors"
+              title="시간표"
+            >
+              <CalendarDays size={18} />
+            </button>
+            <button
+              onClick={() => {
+                closePanels();
+                setIsStorageOpen(true);
+              }}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-colors"
+              title="저장 공간 관리"
+            >
+              <HardDrive size={18} />
+            </button>
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-colors"
+              title="설정"
+            >
+              <Settings size={18} />
+            </button>
           </div>
           <p className="text-xs text-slate-500">교수님 말씀을 놓치지 마세요</p>
         </div>
@@ -238,10 +888,146 @@ function App() {
             <Mic size={20} />
             {isRecording ? "녹음 화면으로 이동" : "새 강의 녹음하기"}
           </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importProgress !== null}
+            className="w-full mt-2 text-slate-600 hover:text-indigo-600 hover:bg-slate-50 disabled:opacity-60 py-2 px-4 rounded-xl flex items-center justify-center gap-2 text-sm font-medium border border-slate-200 transition-colors"
+          >
+            {importProgress ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                파일 가져오는 중... ({importProgress.done}/{importProgress.total})
+              </>
+            ) : (
+              <>
+                <Upload size={16} />
+                오디오 파일 가져오기
+              </>
+            )}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={SUPPORTED_IMPORT_EXTENSIONS.map(ext => `.${ext}`).join(',')}
+            onChange={handleFileInputChange}
+            className="hidden"
+          />
         </div>
 
+        {/* Class Reminder Banner */}
+        {currentClass && reminderKey && !dismissedReminders.has(reminderKey) && (
+          <div className="px-4 pb-4">
+            <div className="p-3 rounded-xl bg-indigo-50 border border-indigo-200 text-sm">
+              <div className="flex items-start gap-2 text-indigo-800">
+                <BellRing size={16} className="mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="font-medium">{currentClass.subject} 수업 시간입니다</p>
+                  <p className="text-xs text-indigo-600 mt-0.5">
+                    {currentClass.start}–{currentClass.end} · 아직 녹음하고 있지 않습니다
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={startScheduledRecording}
+                  className="flex-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-medium transition-colors"
+                >
+                  녹음 시작
+                </button>
+                <button
+                  onClick={() => setDismissedReminders(prev => new Set(prev).add(reminderKey))}
+                  className="px-3 py-1.5 text-indigo-700 hover:bg-indigo-100 rounded-lg text-xs font-medium transition-colors"
+                >
+                  닫기
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Crash Recovery Banner */}
+        {unfinishedSessions.length > 0 && !isRecording && (
+          <div className="px-4 pb-4 space-y-2">
+            {unfinishedSessions.map(session => (
+              <div key={session.id} className="p-3 rounded-xl bg-amber-50 border border-amber-200 text-sm">
+                <div className="flex items-start gap-2 text-amber-800">
+                  <LifeBuoy size={16} className="mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">중단된 녹음이 있습니다</p>
+                    <p className="text-xs text-amber-700 mt-0.5">
+                      {formatDate(new Date(session.startedAt))} · {formatTime(session.duration)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2 mt-3">
+                  <button
+                    onClick={() => recoverSession(session)}
+                    className="flex-1 px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs font-medium transition-colors"
+                  >
+                    복구하기
+                  </button>
+                  <button
+                    onClick={() => discardSession(session)}
+                    className="px-3 py-1.5 text-amber-700 hover:bg-amber-100 rounded-lg text-xs font-medium transition-colors"
+                  >
+                    삭제
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Due Flashcards */}
+        {flashcards.length > 0 && (
+          <div className="px-4 pb-3">
+            <button
+              onClick={() => setStudyScope({ kind: 'all' })}
+              className="w-full flex items-center gap-3 p-3 rounded-xl bg-emerald-50 hover:bg-emerald-100 border border-emerald-100 text-left transition-colors"
+            >
+              <Layers size={18} className="text-emerald-600 flex-shrink-0" />
+              <span className="flex-1 text-sm text-emerald-900">
+                {dueCards.length > 0 ? `오늘 복습할 카드 ${dueCards.length}장` : '오늘 복습할 카드가 없습니다'}
+              </span>
+            </button>
+          </div>
+        )}
+
+        {/* Search Box */}
+        {recordings.length > 0 && (
+          <div className="px-4 pb-3">
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-2.5 text-slate-400" size={16} />
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full pl-9 pr-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                  placeholder="노트 전체에서 검색"
+                />
+              </div>
+              <button
+                onClick={() => {
+                  closePanels();
+                  setIsChatOpen(true);
+                }}
+                className="p-2 text-slate-500 hover:text-indigo-600 bg-slate-50 hover:bg-indigo-50 border border-slate-200 rounded-lg transition-colors"
+                title="강의에 질문하기"
+              >
+                <MessageCircle size={18} />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Scrollable List */}
         <div className="flex-1 overflow-y-auto px-2 pb-24 md:pb-4 space-y-4">
+          {isSearching ? (
+            <SearchResults hits={searchHits} recordings={recordings} onOpen={openSearchHit} />
+          ) : (
+          <>
           {recordings.length === 0 && (
             <div className="text-center py-10 px-4 text-slate-400 text-sm">
               <p>아직 녹음된 강의가 없습니다.</p>
@@ -251,16 +1037,47 @@ function App() {
 
           {sortedSubjects.map(subject => (
             <div key={subject} className="mb-2">
-              <button 
-                onClick={() => toggleFolder(subject)}
-                className="w-full flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-colors text-sm font-semibold uppercase tracking-wider mb-1"
-              >
-                {expandedFolders.has(subject) ? <FolderOpen size={16} /> : <Folder size={16} />}
-                {subject}
-                <span className="text-xs font-normal ml-auto bg-slate-100 px-2 py-0.5 rounded-full">
-                  {groupedRecordings[subject].length}
-                </span>
-              </button>
+              <div className="flex items-center gap-1 mb-1 group/folder">
+                <button 
+                  onClick={() => toggleFolder(subject)}
+                  className="flex-1 min-w-0 flex items-center gap-2 px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-50 rounded-lg transition-colors text-sm font-semibold uppercase tracking-wider"
+                >
+                  {expandedFolders.has(subject) ? <FolderOpen size={16} /> : <Folder size={16} />}
+                  <span className="truncate">{subject}</span>
+                  <span className="text-xs font-normal ml-auto bg-slate-100 px-2 py-0.5 rounded-full">
+                    {groupedRecordings[subject].length}
+                  </span>
+                </button>
+                <button
+                  onClick={() => {
+                    closePanels();
+                    setOverviewSubject(subject);
+                  }}
+                  className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors md:opacity-0 md:group-hover/folder:opacity-100"
+                  title="과목 개요"
+                >
+                  <LayoutDashboard size={16} />
+                </button>
+                <button
+                  onClick={() => {
+                    closePanels();
+                    setGlossarySubject(subject);
+                  }}
+                  className="p-2 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-colors md:opacity-0 md:group-hover/folder:opacity-100"
+                  title="이 과목 용어집"
+                >
+                  <BookA size={16} />
+                </button>
+                {flashcards.some(card => card.subject === subject) && (
+                  <button
+                    onClick={() => setStudyScope({ kind: 'subject', subject })}
+                    className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors md:opacity-0 md:group-hover/folder:opacity-100"
+                    title="이 과목 플래시카드 학습"
+                  >
+                    <Layers size={16} />
+                  </button>
+                )}
+              </div>
 
               {expandedFolders.has(subject) && (
                 <div className="space-y-1 pl-2">
@@ -270,6 +1087,8 @@ function App() {
                         onClick={() => {
                           // Allow opening even if error or processing, to show status/retry
                           setSelectedId(rec.id);
+                          setNoteFocus(null);
+                          closePanels();
                           setView('home');
                         }}
                         className={`w-full text-left p-3 rounded-lg transition-colors flex items-start gap-3 border ${
@@ -280,7 +1099,8 @@ function App() {
                       >
                         <div className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${
                           rec.status === 'completed' ? 'bg-emerald-500' : 
-                          rec.status === 'processing' ? 'bg-amber-400 animate-pulse' : 'bg-red-400'
+                          rec.status === 'processing' ? 'bg-amber-400 animate-pulse' :
+                          rec.status === 'recorded' ? 'bg-slate-300' : 'bg-red-400'
                         }`} />
                         
                         <div className="flex-1 min-w-0 pr-14">
@@ -294,7 +1114,10 @@ function App() {
                           {rec.status === 'processing' && (
                             <div className="mt-2 text-xs text-amber-600 flex items-center gap-1 bg-amber-50 px-2 py-1 rounded w-fit">
                               <Loader2 size={10} className="animate-spin" />
-                              AI 분석 중...
+                              {analysisLabel(rec.id)}
+                              {rec.progress && rec.progress.total > 1 && (
+                                <span className="font-mono">({rec.progress.completed}/{rec.progress.total})</span>
+                              )}
                             </div>
                           )}
                           {rec.status === 'error' && (
@@ -331,11 +1154,13 @@ function App() {
               )}
             </div>
           ))}
+          </>
+          )}
         </div>
       </aside>
 
       {/* Main Content Area */}
-      <main className={`flex-1 flex flex-col h-full bg-slate-50 relative ${!selectedId && view !== 'recording' ? 'hidden md:flex' : 'flex'}`}>
+      <main className={`flex-1 flex flex-col h-full bg-slate-50 relative ${!selectedId && view !== 'recording' && !isPanelOpen ? 'hidden md:flex' : 'flex'}`}>
         
         {view === 'recording' ? (
            <div className="h-full flex flex-col">
@@ -346,17 +1171,101 @@ function App() {
               </div>
               <Recorder 
                 isRecording={isRecording}
+                isPaused={isPaused}
+                isAutoPaused={isAutoPaused}
                 duration={duration}
                 analyser={analyser}
                 permissionError={permissionError}
+                markers={markers}
                 onToggleRecording={toggleRecording}
+                onTogglePause={togglePause}
+                onAddMarker={() => addMarker()}
+                onUpdateMarker={updateMarker}
+                onRemoveMarker={removeMarker}
               />
            </div>
+) : studyScope ? (
+          <StudyMode
+            key={JSON.stringify(studyScope)}
+            title={studyTitle(studyScope)}
+            cards={studyCards(studyScope)}
+            onReview={handleCardReview}
+            onClose={() => setStudyScope(null)}
+          />
+        ) : quizRecording ? (
+          <PracticeExam
+            key={quizRecording.id}
+            recording={quizRecording}
+            onSubmit={(answers) => handleSubmitQuiz(quizRecording, answers)}
+            onClose={() => setQuizRecordingId(null)}
+          />
+        ) : isTimetableOpen ? (
+          <TimetableView
+            timetable={settings.timetable}
+            semesterStart={settings.semesterStart}
+            subjects={sortedSubjects}
+            onChange={handleChangeTimetable}
+            onClose={() => setIsTimetableOpen(false)}
+          />
+        ) : isStorageOpen ? (
+          <StorageManager
+            recordings={recordings}
+            retentionDays={settings.audioRetentionDays}
+            onChangeRetention={handleChangeRetention}
+            onDiscardAudio={handleDiscardAudio}
+            onOpenRecording={(id) => {
+              closePanels();
+              setSelectedId(id);
+              setNoteFocus(null);
+            }}
+            onClose={() => setIsStorageOpen(false)}
+          />
+        ) : isChatOpen ? (
+          <ChatPanel
+            messages={chatMessages}
+            recordings={recordings}
+            onAsk={handleAsk}
+            onOpenCitation={openCitation}
+            onClose={() => setIsChatOpen(false)}
+          />
+        ) : overviewSubject ? (
+          <CourseOverview
+            key={overviewSubject}
+            subject={overviewSubject}
+            digest={overviewDigest}
+            recordings={groupedRecordings[overviewSubject] || []}
+            status={digestStatus[overviewSubject]}
+            isOutdated={!!overviewDigest && getDigestChanges(overviewDigest, groupedRecordings[overviewSubject] || []).needsRebuild}
+            onGenerate={(rebuild) => refreshDigest(overviewSubject, rebuild)}
+            onOpenRecording={(id) => {
+              closePanels();
+              setSelectedId(id);
+              setNoteFocus(null);
+            }}
+            onClose={() => setOverviewSubject(null)}
+          />
+        ) : glossarySubject ? (
+          <GlossaryView
+            key={glossarySubject}
+            subject={glossarySubject}
+            entries={glossary}
+            recordings={groupedRecordings[glossarySubject] || []}
+            onOpen={openGlossaryTerm}
+            onClose={() => setGlossarySubject(null)}
+          />
         ) : selectedRecording ? (
           <NoteDetail 
             recording={selectedRecording} 
+            focus={noteFocus}
             onBack={() => setSelectedId(null)}
+            job={analysisJobs.find(job => job.recordingId === selectedRecording.id)}
+            queuePosition={getQueuePosition(analysisJobs, selectedRecording.id)}
             onRetry={() => handleRetryAnalysis(selectedRecording.id)}
+            onCancelAnalysis={() => handleCancelAnalysis(selectedRecording.id)}
+            onStudy={() => setStudyScope({ kind: 'recording', recordingId: selectedRecording.id })}
+            onStartQuiz={() => setQuizRecordingId(selectedRecording.id)}
+            onRenameSpeaker={(speaker, name) => handleRenameSpeaker(selectedRecording.id, speaker, name)}
+            onSaveNote={(data, source) => handleSaveNote(selectedRecording, data, source)}
           />
         ) : (
           /* Empty State */
@@ -381,13 +1290,13 @@ function App() {
                 setView('recording');
               }}
             >
-              <div className="relative w-10 h-10 flex items-center justify-center bg-indigo-500 rounded-full shrink-0 group-hover:bg-indigo-400 transition-colors">
-                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-indigo-400 opacity-75"></span>
+              <div className={`relative w-10 h-10 flex items-center justify-center rounded-full shrink-0 transition-colors ${isPaused ? 'bg-slate-600 group-hover:bg-slate-500' : 'bg-indigo-500 group-hover:bg-indigo-400'}`}>
+                {!isPaused && <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-indigo-400 opacity-75"></span>}
                 <Mic size={20} className="relative z-10" />
               </div>
               <div>
-                <p className="text-sm font-medium text-slate-200 group-hover:text-white">강의 녹음 중...</p>
-                <p className="font-mono text-lg font-bold leading-none tracking-wide text-indigo-200">{formatTime(duration)}</p>
+                <p className="text-sm font-medium text-slate-200 group-hover:text-white">{isAutoPaused ? '무음 감지로 일시정지됨' : isPaused ? '녹음 일시정지됨' : '강의 녹음 중...'}</p>
+                <p className={`font-mono text-lg font-bold leading-none tracking-wide ${isPaused ? 'text-slate-400' : 'text-indigo-200'}`}>{formatTime(duration)}</p>
               </div>
             </div>
 
@@ -402,6 +1311,25 @@ function App() {
               >
                 <ChevronUp size={24} />
               </button>
+              <button
+                onClick={() => addMarker()}
+                className="relative p-3 bg-amber-400/20 hover:bg-amber-400/30 text-amber-200 rounded-full transition-colors flex items-center justify-center"
+                title="중요 표시"
+              >
+                <Flag size={20} />
+                {markers.length > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-amber-400 text-slate-900 text-xs font-bold flex items-center justify-center">
+                    {markers.length}
+                  </span>
+                )}
+              </button>
+              <button 
+                onClick={togglePause}
+                className="p-3 bg-white/10 hover:bg-white/20 text-white rounded-full transition-colors flex items-center justify-center"
+                title={isPaused ? "녹음 재개" : "일시정지"}
+              >
+                {isPaused ? <Play size={20} fill="currentColor" /> : <Pause size={20} fill="currentColor" />}
+              </button>
               <button 
                 onClick={stopRecording}
                 className="p-3 bg-red-500 hover:bg-red-600 text-white rounded-full transition-colors shadow-lg flex items-center justify-center"
@@ -414,6 +1342,17 @@ function App() {
         </div>
       )}
 
+      {isSettingsOpen && (
+        <SettingsModal
+          settings={settings}
+          onSave={handleSaveSettings}
+          onClose={() => setIsSettingsOpen(false)}
+          onBackup={handleBackup}
+          onRestore={handleRestore}
+          subjects={sortedSubjects}
+        />
+      )}
+
       {/* Edit Modal Overlay */}
       {editingId && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
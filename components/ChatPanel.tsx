@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Loader2, Send, MessageCircle, AlertCircle } from 'lucide-react';
+import { ChatCitation, ChatMessage, Recording } from '../types';
+import { formatTime } from '../utils/audioUtils';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  recordings: Recording[];
+  onAsk: (question: string) => Promise<void>;
+  onOpenCitation: (citation: ChatCitation) => void;
+  onClose: () => void;
+}
+
+const EXAMPLE_QUESTIONS = [
+  '교수님이 TCP 혼잡 제어에 대해 뭐라고 하셨어?',
+  '시험에 나온다고 강조하신 내용 정리해줘',
+];
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, recordings, onAsk, onOpenCitation, onClose }) => {
+  const [input, setInput] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end', behavior: 'smooth' });
+  }, [messages.length, isAsking]);
+
+  const ask = async (question: string) => {
+    if (!question.trim() || isAsking) return;
+    setInput('');
+    setError(null);
+    setIsAsking(true);
+    try {
+      await onAsk(question.trim());
+    } catch (err) {
+      console.error("Chat request failed:", err);
+      setError('답변을 받지 못했습니다. 잠시 후 다시 시도해주세요.');
+      setInput(question);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const describeCitation = (citation: ChatCitation): string => {
+    const recording = recordings.find(rec => rec.id === citation.recordingId);
+    const segment = recording?.data?.transcript[citation.segmentIndex];
+    if (!recording) return '삭제된 강의';
+    return `${recording.title}${segment ? ` · ${formatTime(Math.floor(segment.start))}` : ''}`;
+  };
+
+  // Turns "[2]" markers in the answer into links to the cited passage
+  const renderAnswer = (message: ChatMessage) => {
+    return message.text.split(/(\[\d+\])/g).map((part, i) => {
+      const citation = message.citations.find(c => `[${c.number}]` === part);
+      if (!citation) return <React.Fragment key={i}>{part}</React.Fragment>;
+      return (
+        <button
+          key={i}
+          onClick={() => onOpenCitation(citation)}
+          className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 rounded bg-indigo-100 text-indigo-700 hover:bg-indigo-200 text-xs font-semibold align-baseline transition-colors"
+          title={describeCitation(citation)}
+        >
+          {citation.number}
+        </button>
+      );
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-hidden">
+      <div className="border-b border-slate-200 p-4 flex items-center gap-4 bg-white">
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-xl font-bold text-slate-900 leading-tight">강의에 질문하기</h1>
+          <p className="text-sm text-slate-500 mt-1">저장된 모든 강의 스크립트에서 답을 찾아드립니다</p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {messages.length === 0 && (
+          <div className="text-center py-12 space-y-4">
+            <div className="w-16 h-16 mx-auto bg-indigo-100 text-indigo-500 rounded-full flex items-center justify-center">
+              <MessageCircle size={28} />
+            </div>
+            <p className="text-slate-500">수업 내용에 대해 무엇이든 물어보세요.</p>
+            <div className="flex flex-col items-center gap-2">
+              {EXAMPLE_QUESTIONS.map(q => (
+                <button
+                  key={q}
+                  onClick={() => ask(q)}
+                  className="px-3 py-1.5 text-sm text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-lg transition-colors"
+                >
+                  {q}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => message.role === 'user' ? (
+          <div key={message.id} className="flex justify-end">
+            <p className="max-w-[80%] bg-indigo-600 text-white px-4 py-2 rounded-2xl rounded-br-sm whitespace-pre-wrap">
+              {message.text}
+            </p>
+          </div>
+        ) : (
+          <div key={message.id} className="max-w-[90%] space-y-2">
+            <p className="bg-slate-50 border border-slate-200 text-slate-800 px-4 py-3 rounded-2xl rounded-bl-sm leading-relaxed whitespace-pre-wrap">
+              {renderAnswer(message)}
+            </p>
+            {message.citations.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 pl-1">
+                {message.citations.map(citation => (
+                  <button
+                    key={citation.number}
+                    onClick={() => onOpenCitation(citation)}
+                    className="px-2 py-1 rounded-md text-xs bg-white border border-slate-200 text-slate-600 hover:border-indigo-200 hover:text-indigo-700 transition-colors"
+                  >
+                    <span className="font-semibold text-indigo-600 mr-1">[{citation.number}]</span>
+                    {describeCitation(citation)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {isAsking && (
+          <p className="text-sm text-slate-500 flex items-center gap-2">
+            <Loader2 size={14} className="animate-spin" />
+            강의 내용을 찾아보는 중...
+          </p>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-600 rounded-lg text-sm flex items-center gap-2">
+            <AlertCircle size={16} />
+            {error}
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(input);
+        }}
+        className="border-t border-slate-200 p-4 flex gap-2"
+      >
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          disabled={isAsking}
+          className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all disabled:bg-slate-50"
+          placeholder="예: 페이지 교체 알고리즘의 차이가 뭐였지?"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !input.trim()}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded-lg transition-colors flex items-center justify-center"
+          title="질문하기"
+        >
+          <Send size={18} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
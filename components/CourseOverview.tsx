@@ -0,0 +1,228 @@
+import React, { useMemo } from 'react';
+import { ArrowLeft, Loader2, RefreshCw, Sparkles, AlertCircle, CalendarDays, Repeat, Star, BookOpen } from 'lucide-react';
+import { CourseDigest, Recording } from '../types';
+import { formatDate } from '../utils/audioUtils';
+import { downloadExport, exportSubject, ExportFormatId } from '../services/exportService';
+import ExportMenu from './ExportMenu';
+
+interface CourseOverviewProps {
+  subject: string;
+  digest?: CourseDigest;
+  recordings: Recording[]; // every recording in the subject folder
+  status?: 'updating' | 'error';
+  isOutdated: boolean; // a digested lecture was deleted, moved or re-analyzed
+  onGenerate: (rebuild: boolean) => void;
+  onOpenRecording: (id: string) => void;
+  onClose: () => void;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  // Weeks start on Monday, like a university timetable
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const CourseOverview: React.FC<CourseOverviewProps> = ({ subject, digest, recordings, status, isOutdated, onGenerate, onOpenRecording, onClose }) => {
+  const byId = useMemo(() => new Map(recordings.map(rec => [rec.id, rec])), [recordings]);
+
+  // Digested lectures grouped by week, counted from the week of the first lecture
+  const weeks = useMemo(() => {
+    if (!digest) return [];
+    const lectures = digest.lectures
+      .map(lecture => ({ lecture, recording: byId.get(lecture.recordingId) }))
+      .filter((l): l is { lecture: typeof l.lecture; recording: Recording } => !!l.recording)
+      .sort((a, b) => a.recording.date.getTime() - b.recording.date.getTime());
+    if (lectures.length === 0) return [];
+
+    const firstWeek = startOfWeek(lectures[0].recording.date).getTime();
+    const groups = new Map<number, typeof lectures>();
+    lectures.forEach(l => {
+      const week = Math.floor((startOfWeek(l.recording.date).getTime() - firstWeek) / WEEK_MS) + 1;
+      groups.set(week, [...(groups.get(week) || []), l]);
+    });
+    return Array.from(groups.entries());
+  }, [digest, byId]);
+
+  const analyzedCount = recordings.filter(rec => rec.status === 'completed').length;
+  const isUpdating = status === 'updating';
+
+  const handleExport = async (formatId: ExportFormatId) => {
+    try {
+      const file = await exportSubject(subject, recordings, formatId);
+      if (!file) {
+        window.alert('이 과목에는 선택한 형식으로 내보낼 노트가 없습니다.');
+        return;
+      }
+      downloadExport(file);
+    } catch (error) {
+      console.error("Failed to export subject:", error);
+      window.alert('노트를 내보내지 못했습니다.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-hidden">
+      <div className="border-b border-slate-200 p-4 flex items-center gap-4 bg-white">
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-xl font-bold text-slate-900 leading-tight truncate">{subject} 과목 개요</h1>
+          <p className="text-sm text-slate-500 mt-1">
+            분석된 강의 {analyzedCount}개
+            {digest && ` · ${formatDate(digest.updatedAt)} 갱신`}
+          </p>
+        </div>
+        {analyzedCount > 0 && (
+          <ExportMenu label="전체 내보내기" title="이 과목의 모든 노트 내보내기" onExport={handleExport} />
+        )}
+        {digest && (
+          <button
+            onClick={() => onGenerate(true)}
+            disabled={isUpdating}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-60 rounded-lg text-sm font-medium transition-colors"
+            title="모든 강의로 다시 만들기"
+          >
+            {isUpdating ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />}
+            <span className="hidden sm:inline">{isUpdating ? '갱신 중...' : '다시 만들기'}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+        {status === 'error' && (
+          <div className="p-4 bg-red-50 text-red-600 rounded-lg text-sm flex items-center gap-2">
+            <AlertCircle size={16} className="flex-shrink-0" />
+            <span className="flex-1">과목 개요를 갱신하지 못했습니다.</span>
+            <button onClick={() => onGenerate(false)} className="font-medium underline">다시 시도</button>
+          </div>
+        )}
+
+        {!digest ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center space-y-6">
+            <div className="p-4 bg-indigo-100 text-indigo-500 rounded-full">
+              <BookOpen size={40} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800 mb-2">과목 전체를 한눈에 정리해보세요</h3>
+              <p className="text-slate-500 max-w-sm mx-auto mb-6">
+                이 폴더의 모든 강의 노트로 주차별 주제, 반복되는 주제, 핵심 개념을 정리합니다.
+                새 강의가 분석되면 자동으로 반영됩니다.
+              </p>
+              <button
+                onClick={() => onGenerate(false)}
+                disabled={isUpdating || analyzedCount === 0}
+                className="inline-flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded-xl font-medium shadow-md transition-all active:scale-95"
+              >
+                {isUpdating ? <Loader2 size={18} className="animate-spin" /> : <Sparkles size={18} />}
+                {isUpdating ? 'AI가 정리하는 중...' : analyzedCount === 0 ? '분석된 강의가 없습니다' : '과목 개요 만들기'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {isOutdated && !isUpdating && (
+              <div className="p-4 bg-amber-50 text-amber-800 rounded-lg text-sm flex items-center gap-2 border border-amber-100">
+                <AlertCircle size={16} className="flex-shrink-0" />
+                <span className="flex-1">정리된 이후 삭제되거나 다시 분석된 강의가 있습니다.</span>
+                <button onClick={() => onGenerate(true)} className="font-medium underline">다시 만들기</button>
+              </div>
+            )}
+
+            {isUpdating && (
+              <p className="text-sm text-indigo-600 flex items-center gap-2">
+                <Loader2 size={14} className="animate-spin" />
+                새 강의를 반영하는 중...
+              </p>
+            )}
+
+            <section className="space-y-3">
+              <div className="flex items-center gap-2 text-indigo-600">
+                <BookOpen size={20} />
+                <h2 className="font-semibold text-lg">지금까지의 내용</h2>
+              </div>
+              <div className="bg-indigo-50 p-5 rounded-xl text-slate-800 leading-relaxed border border-indigo-100 whitespace-pre-wrap">
+                {digest.overview}
+              </div>
+            </section>
+
+            <section className="space-y-3">
+              <div className="flex items-center gap-2 text-slate-600">
+                <CalendarDays size={20} />
+                <h2 className="font-semibold text-lg">주차별 주제</h2>
+              </div>
+              <div className="space-y-4">
+                {weeks.map(([week, lectures]) => (
+                  <div key={week} className="flex gap-4">
+                    <span className="flex-shrink-0 w-14 text-sm font-bold text-slate-400 pt-3">{week}주차</span>
+                    <div className="flex-1 space-y-2">
+                      {lectures.map(({ lecture, recording }) => (
+                        <button
+                          key={lecture.recordingId}
+                          onClick={() => onOpenRecording(recording.id)}
+                          className="w-full text-left bg-white border border-slate-200 p-3 rounded-lg hover:border-indigo-200 hover:bg-indigo-50/50 transition-colors"
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-slate-800 truncate">{recording.title}</span>
+                            <span className="text-xs text-slate-400 flex-shrink-0">{formatDate(recording.date)}</span>
+                          </div>
+                          {lecture.topics.length > 0 && (
+                            <ul className="mt-2 space-y-1 text-sm text-slate-600 list-disc pl-4">
+                              {lecture.topics.map((topic, i) => <li key={i}>{topic}</li>)}
+                            </ul>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {digest.themes.length > 0 && (
+              <section className="space-y-3">
+                <div className="flex items-center gap-2 text-amber-600">
+                  <Repeat size={20} />
+                  <h2 className="font-semibold text-lg">반복되는 주제</h2>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {digest.themes.map((theme, i) => (
+                    <span key={i} className="px-3 py-1.5 bg-amber-50 text-amber-800 border border-amber-100 rounded-lg text-sm">
+                      {theme}
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {digest.keyConcepts.length > 0 && (
+              <section className="space-y-3">
+                <div className="flex items-center gap-2 text-emerald-600">
+                  <Star size={20} />
+                  <h2 className="font-semibold text-lg">핵심 개념</h2>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {digest.keyConcepts.map((concept, i) => (
+                    <div key={i} className="bg-white border border-slate-200 p-4 rounded-lg shadow-sm">
+                      <span className="font-medium text-emerald-800 block mb-1">{concept.term}</span>
+                      <span className="text-sm text-slate-600 block">{concept.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CourseOverview;
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download, Loader2 } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormatId } from '../services/exportService';
+
+interface ExportMenuProps {
+  label: string;
+  title: string;
+  onExport: (formatId: ExportFormatId) => Promise<void> | void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ label, title, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSelect = async (formatId: ExportFormatId) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await onExport(formatId);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={isExporting}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-60 rounded-lg text-sm font-medium transition-colors"
+        title={title}
+      >
+        {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+        <span className="hidden sm:inline">{label}</span>
+        <ChevronDown size={14} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-slate-200 rounded-xl shadow-lg py-1 z-20">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleSelect(format.id)}
+              className="w-full text-left px-4 py-2 hover:bg-slate-50 transition-colors"
+            >
+              <span className="block text-sm font-medium text-slate-800">{format.label}</span>
+              <span className="block text-xs text-slate-500">{format.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
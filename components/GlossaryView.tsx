@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, BookA, Search } from 'lucide-react';
+import { GlossaryEntry, Recording } from '../types';
+import { formatTime } from '../utils/audioUtils';
+
+interface GlossaryViewProps {
+  subject: string;
+  entries: GlossaryEntry[];
+  recordings: Recording[];
+  onOpen: (recordingId: string, termIndex: number) => void;
+  onClose: () => void;
+}
+
+const GlossaryView: React.FC<GlossaryViewProps> = ({ subject, entries, recordings, onOpen, onClose }) => {
+  const [filter, setFilter] = useState('');
+
+  const titles = useMemo(() => new Map(recordings.map(rec => [rec.id, rec.title])), [recordings]);
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return entries;
+    return entries.filter(e => e.term.toLowerCase().includes(query) || e.definition.toLowerCase().includes(query));
+  }, [entries, filter]);
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-hidden">
+      <div className="border-b border-slate-200 p-4 flex items-center gap-4 bg-white">
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-xl font-bold text-slate-900 leading-tight">{subject} 용어집</h1>
+          <p className="text-sm text-slate-500 mt-1">용어 {entries.length}개</p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-4">
+        {entries.length === 0 ? (
+          <div className="text-center py-16 text-slate-400 space-y-3">
+            <BookA size={40} className="mx-auto text-slate-300" />
+            <p>분석이 완료된 강의의 주요 용어가 여기에 모입니다.</p>
+          </div>
+        ) : (
+          <>
+            <div className="relative">
+              <Search className="absolute left-3 top-2.5 text-slate-400" size={16} />
+              <input
+                type="search"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 text-sm bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                placeholder="용어 찾기"
+              />
+            </div>
+
+            <div className="divide-y divide-slate-100">
+              {visible.map(entry => (
+                <div key={entry.term} className="py-4 space-y-2">
+                  <p className="font-semibold text-emerald-800">{entry.term}</p>
+                  {entry.definition && <p className="text-sm text-slate-600 leading-relaxed">{entry.definition}</p>}
+                  <div className="flex flex-wrap gap-1.5">
+                    {entry.mentions.map(mention => (
+                      <button
+                        key={mention.recordingId}
+                        onClick={() => onOpen(mention.recordingId, mention.termIndex)}
+                        className="px-2 py-1 rounded-md text-xs bg-slate-100 hover:bg-indigo-50 hover:text-indigo-700 text-slate-600 transition-colors"
+                        title="이 강의에서 보기"
+                      >
+                        {titles.get(mention.recordingId)}
+                        {mention.firstMentionTime !== null && (
+                          <span className="ml-1 font-mono text-slate-400">{formatTime(Math.floor(mention.firstMentionTime))}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {visible.length === 0 && (
+                <p className="py-8 text-center text-sm text-slate-400">'{filter}'에 해당하는 용어가 없습니다.</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryView;
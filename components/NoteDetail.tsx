@@ -1,24 +1,68 @@
-import React, { useEffect, useState } from 'react';
-import { ArrowLeft, BookOpen, FileText, CheckCircle, HelpCircle, Download, Folder, Play, Pause, FileAudio, AlertCircle, RefreshCw, Loader2, Sparkles } from 'lucide-react';
-import { Recording } from '../types';
-import { formatDate } from '../utils/audioUtils';
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, BookOpen, FileText, CheckCircle, HelpCircle, Download, Folder, Play, Pause, FileAudio, AlertCircle, RefreshCw, Loader2, Sparkles, Layers, PenLine, MessagesSquare, Check, Pencil, History, StickyNote, Flag, FastForward } from 'lucide-react';
+import { AnalysisJob, NoteData, NoteFocus, NoteSection, Recording } from '../types';
+import { formatDate, formatFileSize, formatTime, getAudioExtension } from '../utils/audioUtils';
 import { getAudio } from '../services/storageService';
+import { MAX_ANALYSIS_ATTEMPTS } from '../services/analysisQueue';
+import { ANALYSIS_ERRORS } from '../services/analysisErrors';
+import { downloadExport, exportNote, ExportFormatId } from '../services/exportService';
+import { getSpeakerName, listSpeakers } from '../utils/transcriptUtils';
+import { findSilence, totalSilence } from '../utils/silenceUtils';
+import TranscriptView from './TranscriptView';
+import NoteEditor from './NoteEditor';
+import RevisionHistory from './RevisionHistory';
+import ExportMenu from './ExportMenu';
+
+const SECTION_NAMES: Record<NoteSection, string> = {
+  transcript: '스크립트',
+  summary: '요약',
+  keyTerms: '핵심 용어',
+  examQuestions: '예상 문제',
+  classQuestions: '수업 중 질문',
+};
 
 interface NoteDetailProps {
   recording: Recording;
+  focus?: NoteFocus | null;
+  job?: AnalysisJob;
+  queuePosition: number | null;
   onBack: () => void;
   onRetry: () => void;
+  onCancelAnalysis: () => void;
+  onStudy: () => void;
+  onStartQuiz: () => void;
+  onRenameSpeaker: (speaker: string, name: string) => void;
+  onSaveNote: (data: NoteData, source: 'edit' | 'revert') => void;
 }
 
-const NoteDetail: React.FC<NoteDetailProps> = ({ recording, onBack, onRetry }) => {
+const NoteDetail: React.FC<NoteDetailProps> = ({ recording, focus, job, queuePosition, onBack, onRetry, onCancelAnalysis, onStudy, onStartQuiz, onRenameSpeaker, onSaveNote }) => {
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [audioType, setAudioType] = useState('audio/webm');
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // Seek requested before the audio element was ready
+  const pendingSeekRef = useRef<number | null>(null);
+  const [flashKey, setFlashKey] = useState<string | null>(null);
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [speakerDraft, setSpeakerDraft] = useState('');
+  const [isEditing, setIsEditing] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [skipSilence, setSkipSilence] = useState(true);
 
   useEffect(() => {
     const loadAudio = async () => {
       // If audioBlob is already in memory (just recorded), use it
       if (recording.audioBlob) {
         setAudioUrl(URL.createObjectURL(recording.audioBlob));
+        setAudioType(recording.audioBlob.type);
+        return;
+      }
+
+      if (recording.audioDiscardedAt) {
+        setAudioUrl(null);
         return;
       }
 
@@ -28,6 +72,9 @@ const NoteDetail: React.FC<NoteDetailProps> = ({ recording, onBack, onRetry }) =
         const blob = await getAudio(recording.id);
         if (blob) {
           setAudioUrl(URL.createObjectURL(blob));
+          setAudioType(blob.type);
+        } else {
+          setAudioUrl(null);
         }
       } catch (error) {
         console.error("Failed to load audio file:", error);
@@ -43,39 +90,69 @@ const NoteDetail: React.FC<NoteDetailProps> = ({ recording, onBack, onRetry }) =
         URL.revokeObjectURL(audioUrl);
       }
     };
-  }, [recording.id, recording.audioBlob]);
+  }, [recording.id, recording.audioBlob, recording.audioDiscardedAt]);
 
-  const handleDownloadNote = () => {
-    if (!recording.data) return;
+  useEffect(() => {
+    setCurrentTime(0);
+    setIsPlaying(false);
+    setEditingSpeaker(null);
+    setIsEditing(false);
+    setIsHistoryOpen(false);
+  }, [recording.id]);
 
-    const { summary, transcript, keyTerms, examQuestions } = recording.data;
-    const content = `
-# ${recording.title}
-과목: ${recording.subject}
-날짜: ${formatDate(recording.date)}
+  // Scroll to the passage a search result (or other deep link) points at
+  useEffect(() => {
+    if (!focus || recording.status !== 'completed') return;
 
-## 📌 핵심 요약
-${summary}
+    const key = `${focus.field}-${focus.index}`;
+    const el = contentRef.current?.querySelector(`[data-focus="${key}"]`);
+    el?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    setFlashKey(key);
 
-## 🔑 주요 용어
-${keyTerms.map(term => `- ${term}`).join('\n')}
+    const time = focus.field === 'transcript' ? recording.data?.transcript[focus.index]?.start
+      : focus.field === 'keyTerm' ? recording.data?.keyTerms[focus.index]?.firstMentionTime
+      : undefined;
+    if (typeof time === 'number') {
+      setCurrentTime(time);
+      if (audioRef.current && audioRef.current.readyState > 0) {
+        audioRef.current.currentTime = time;
+      } else {
+        pendingSeekRef.current = time;
+      }
+    }
 
-## 📝 예상 시험 문제
-${examQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n')}
+    const timer = window.setTimeout(() => setFlashKey(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focus?.nonce, recording.id, recording.status]);
 
-## 💬 전체 스크립트
-${transcript}
-    `.trim();
+  const flashClass = (key: string) => flashKey === key ? 'ring-2 ring-amber-300 ring-offset-2' : '';
 
-    const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${recording.title.replace(/\s+/g, '_')}_notes.md`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const handleSeek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = time;
+    setCurrentTime(time);
+    audio.play().catch(e => console.error("Failed to start playback:", e));
+  };
+
+  const startRenamingSpeaker = (speaker: string) => {
+    setEditingSpeaker(speaker);
+    setSpeakerDraft(getSpeakerName(speaker, recording.data?.speakerNames));
+  };
+
+  const saveSpeakerName = () => {
+    if (!editingSpeaker) return;
+    onRenameSpeaker(editingSpeaker, speakerDraft.trim());
+    setEditingSpeaker(null);
+  };
+
+  const handleExport = (formatId: ExportFormatId) => {
+    const file = exportNote(recording, formatId);
+    if (!file) {
+      window.alert('이 노트에는 선택한 형식으로 내보낼 내용이 없습니다.');
+      return;
+    }
+    downloadExport(file);
   };
 
   const handleDownloadAudio = () => {
@@ -83,12 +160,17 @@ ${transcript}
     
     const link = document.createElement('a');
     link.href = audioUrl;
-    link.download = `${recording.title.replace(/\s+/g, '_')}.webm`;
+    link.download = `${recording.title.replace(/\s+/g, '_')}.${getAudioExtension(audioType)}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const handleReanalyze = () => {
+    if (!window.confirm('다시 분석하면 요약, 용어, 문제와 스크립트가 새 결과로 바뀝니다. 내 메모와 화자 이름은 그대로 남고, 이전 내용은 수정 기록에서 되돌릴 수 있습니다. 계속하시겠습니까?')) return;
+    onRetry();
+  };
+
   const renderContent = () => {
     if (recording.status === 'processing') {
       return (
@@ -100,56 +182,190 @@ ${transcript}
             </div>
           </div>
           <div>
-             <h3 className="text-xl font-bold text-slate-800 mb-2">AI가 강의를 분석하고 있습니다</h3>
+             <h3 className="text-xl font-bold text-slate-800 mb-2">
+               {job?.state === 'waiting' ? 'AI 분석을 기다리고 있습니다' : 'AI가 강의를 분석하고 있습니다'}
+             </h3>
              <p className="text-slate-500 max-w-md mx-auto">
-               오디오 길이에 따라 1~3분 정도 소요될 수 있습니다.<br/>
-               잠시만 기다려주세요...
+               {job?.state === 'waiting' && job.nextAttemptAt ? (
+                 <>
+                   일시적인 오류로 분석이 중단되어 {job.nextAttemptAt.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}에 다시 시도합니다.<br/>
+                   다음 시도 {job.attempts + 1}/{MAX_ANALYSIS_ATTEMPTS}
+                 </>
+               ) : job?.state === 'waiting' && queuePosition !== null ? (
+                 <>
+                   앞선 강의의 분석이 끝나면 시작됩니다. (대기 {queuePosition}번째)<br/>
+                   페이지를 닫아도 다음에 열 때 이어서 분석합니다.
+                 </>
+               ) : (
+                 <>
+                   오디오 길이에 따라 1~3분 정도 소요될 수 있습니다.<br/>
+                   {job && job.attempts > 1 ? `다시 시도하는 중입니다 (시도 ${job.attempts}/${MAX_ANALYSIS_ATTEMPTS})` : '잠시만 기다려주세요...'}
+                 </>
+               )}
              </p>
           </div>
+          {recording.progress && recording.progress.total > 1 && (
+            <div className="w-full max-w-sm space-y-2">
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500 transition-all duration-500"
+                  style={{ width: `${(recording.progress.completed / recording.progress.total) * 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-slate-500">
+                긴 강의를 나누어 분석하는 중 ({recording.progress.completed}/{recording.progress.total})
+              </p>
+            </div>
+          )}
+          <button
+            onClick={onCancelAnalysis}
+            className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            분석 취소
+          </button>
         </div>
       );
     }
 
     if (recording.status === 'error' || !recording.data) {
+      const errorInfo = recording.status === 'error' && recording.errorKind ? ANALYSIS_ERRORS[recording.errorKind] : null;
       return (
         <div className="flex flex-col items-center justify-center py-16 text-center space-y-6 border-2 border-dashed border-slate-200 rounded-2xl bg-slate-50/50">
-          <div className="p-4 bg-red-100 text-red-500 rounded-full">
-            <AlertCircle size={40} />
-          </div>
+          {recording.status === 'recorded' ? (
+            <div className="p-4 bg-indigo-100 text-indigo-500 rounded-full">
+              <FileAudio size={40} />
+            </div>
+          ) : (
+            <div className="p-4 bg-red-100 text-red-500 rounded-full">
+              <AlertCircle size={40} />
+            </div>
+          )}
           <div>
             <h3 className="text-lg font-bold text-slate-800 mb-2">
-              {recording.status === 'error' ? '분석에 실패했습니다' : '분석 결과가 없습니다'}
+              {errorInfo ? `분석에 실패했습니다: ${errorInfo.label}` :
+               recording.status === 'error' ? '분석에 실패했습니다' :
+               recording.status === 'recorded' ? '아직 분석되지 않은 녹음입니다' : '분석 결과가 없습니다'}
             </h3>
             <p className="text-slate-500 max-w-sm mx-auto mb-6">
-              {recording.errorMessage || "네트워크 상태를 확인하고 다시 시도해주세요. 오디오 파일은 안전하게 저장되어 있습니다."}
+              {recording.status === 'recorded'
+                ? "오디오 파일은 안전하게 저장되어 있습니다. 버튼을 눌러 AI 분석을 시작하세요."
+                : errorInfo?.guidance || recording.errorMessage || "네트워크 상태를 확인하고 다시 시도해주세요. 오디오 파일은 안전하게 저장되어 있습니다."}
             </p>
-            <button
-              onClick={onRetry}
-              className="inline-flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-medium shadow-md transition-all hover:scale-105 active:scale-95"
-            >
-              <Sparkles size={18} />
-              AI 분석 다시 시도하기
-            </button>
+            {errorInfo && !errorInfo.retryable ? (
+              // Retrying as-is would fail again; keep the option for after the cause is fixed
+              <button
+                onClick={onRetry}
+                className="inline-flex items-center gap-2 px-5 py-2.5 bg-white border border-slate-200 hover:bg-slate-100 text-slate-700 rounded-xl font-medium transition-colors"
+              >
+                <RefreshCw size={16} />
+                문제를 해결한 뒤 다시 시도하기
+              </button>
+            ) : (
+              <button
+                onClick={onRetry}
+                className="inline-flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-medium shadow-md transition-all hover:scale-105 active:scale-95"
+              >
+                <Sparkles size={18} />
+                {recording.status === 'recorded' ? 'AI 분석 시작하기' : 'AI 분석 다시 시도하기'}
+              </button>
+            )}
           </div>
         </div>
       );
     }
 
-    const { summary, transcript, keyTerms, examQuestions } = recording.data;
+    if (isEditing) {
+      return (
+        <NoteEditor
+          data={recording.data}
+          onSave={(data) => {
+            onSaveNote(data, 'edit');
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      );
+    }
+
+    const { summary, transcript, keyTerms, examQuestions, classQuestions, speakerNames, personalNotes } = recording.data;
+    const speakers = listSpeakers(transcript);
+    // Only a failed re-analysis leaves an error on a note that has content
+    const reanalysisError = recording.errorKind ? ANALYSIS_ERRORS[recording.errorKind] : null;
+    // Analysis needs the audio, which may have been deleted to free space
+    const canReanalyze = !recording.audioDiscardedAt;
 
     return (
       <>
+        {reanalysisError && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700 flex items-start gap-3">
+            <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-medium">다시 분석하지 못해 기존 노트를 그대로 두었습니다: {reanalysisError.label}</p>
+              <p className="mt-1">{reanalysisError.guidance}</p>
+            </div>
+            {reanalysisError.retryable && canReanalyze && (
+              <button
+                onClick={onRetry}
+                className="flex-shrink-0 flex items-center gap-1 font-medium text-red-800 hover:underline"
+              >
+                <RefreshCw size={14} />
+                다시 시도
+              </button>
+            )}
+          </div>
+        )}
+
+        {recording.incompleteSections && recording.incompleteSections.length > 0 && (
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800 flex items-start gap-3">
+            <AlertCircle size={18} className="flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              AI 응답이 중간에 끊기거나 일부가 빠져 {recording.incompleteSections.map(section => SECTION_NAMES[section]).join(', ')} 항목이 비어 있거나 불완전할 수 있습니다.
+              {!canReanalyze && ' 오디오가 삭제되어 다시 분석할 수 없으니, 필요하면 노트를 직접 편집하세요.'}
+            </div>
+            {canReanalyze && (
+              <button
+                onClick={handleReanalyze}
+                className="flex-shrink-0 flex items-center gap-1 font-medium text-amber-900 hover:underline"
+              >
+                <RefreshCw size={14} />
+                다시 분석
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Summary Section */}
         <section className="space-y-3">
           <div className="flex items-center gap-2 text-indigo-600">
             <BookOpen size={20} />
             <h2 className="font-semibold text-lg">핵심 요약</h2>
           </div>
-          <div className="bg-indigo-50 p-5 rounded-xl text-slate-800 leading-relaxed border border-indigo-100">
+          <div data-focus="summary-0" className={`bg-indigo-50 p-5 rounded-xl text-slate-800 leading-relaxed border border-indigo-100 transition-shadow ${flashClass('summary-0')}`}>
             {summary}
           </div>
         </section>
 
+        {/* Personal Notes Section */}
+        {personalNotes ? (
+          <section className="space-y-3">
+            <div className="flex items-center gap-2 text-sky-600">
+              <StickyNote size={20} />
+              <h2 className="font-semibold text-lg">내 메모</h2>
+            </div>
+            <div className="bg-sky-50 p-5 rounded-xl text-slate-800 leading-relaxed border border-sky-100 whitespace-pre-wrap">
+              {personalNotes}
+            </div>
+          </section>
+        ) : (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="flex items-center gap-2 text-sm text-slate-400 hover:text-sky-600 transition-colors"
+          >
+            <StickyNote size={16} />
+            내 메모 추가하기
+          </button>
+        )}
+
         {/* Key Terms Section */}
         <section className="space-y-3">
           <div className="flex items-center gap-2 text-emerald-600">
@@ -157,13 +373,24 @@ ${transcript}
             <h2 className="font-semibold text-lg">주요 용어</h2>
           </div>
           <div className="grid gap-3 sm:grid-cols-2">
-            {keyTerms.map((term, idx) => (
-              <div key={idx} className="bg-white border border-slate-200 p-4 rounded-lg shadow-sm hover:shadow-md transition-shadow">
-                <span className="font-medium text-emerald-800 block mb-1">
-                   • {term.split(':')[0]}
-                </span>
+            {keyTerms.map((t, idx) => (
+              <div key={idx} data-focus={`keyTerm-${idx}`} className={`bg-white border border-slate-200 p-4 rounded-lg shadow-sm hover:shadow-md transition-shadow ${flashClass(`keyTerm-${idx}`)}`}>
+                <div className="flex items-start justify-between gap-2 mb-1">
+                  <span className="font-medium text-emerald-800 block">
+                     • {t.term}
+                  </span>
+                  {t.firstMentionTime !== null && (
+                    <button
+                      onClick={() => handleSeek(t.firstMentionTime!)}
+                      className="flex-shrink-0 font-mono text-xs text-slate-400 hover:text-indigo-600 transition-colors"
+                      title="처음 언급된 부분부터 재생"
+                    >
+                      {formatTime(Math.floor(t.firstMentionTime))}
+                    </button>
+                  )}
+                </div>
                 <span className="text-sm text-slate-600 block">
-                  {term.split(':')[1] || term}
+                  {t.definition}
                 </span>
               </div>
             ))}
@@ -175,28 +402,124 @@ ${transcript}
           <div className="flex items-center gap-2 text-rose-600">
             <HelpCircle size={20} />
             <h2 className="font-semibold text-lg">예상 시험 문제</h2>
+            {examQuestions.length > 0 && (
+              <button
+                onClick={onStartQuiz}
+                className="ml-auto flex items-center gap-1.5 px-3 py-1.5 bg-rose-50 hover:bg-rose-100 text-rose-700 rounded-lg text-sm font-medium transition-colors"
+              >
+                <PenLine size={16} />
+                연습 시험 보기
+                {recording.quizAttempts && recording.quizAttempts.length > 0 && (
+                  <span className="text-xs text-rose-500">
+                    (최고 {Math.max(...recording.quizAttempts.map(a => a.totalScore))}점)
+                  </span>
+                )}
+              </button>
+            )}
           </div>
           <div className="space-y-3">
             {examQuestions.map((q, idx) => (
-              <div key={idx} className="flex gap-3 bg-white p-4 rounded-lg border border-slate-200">
+              <div key={idx} data-focus={`examQuestion-${idx}`} className={`flex gap-3 bg-white p-4 rounded-lg border border-slate-200 ${flashClass(`examQuestion-${idx}`)}`}>
                 <span className="flex-shrink-0 w-6 h-6 rounded-full bg-rose-100 text-rose-600 flex items-center justify-center font-bold text-xs">
                   Q{idx + 1}
                 </span>
-                <p className="text-slate-700">{q}</p>
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-700">{q.question}</p>
+                  {q.answer && (
+                    <details className="mt-2 text-sm">
+                      <summary className="cursor-pointer text-rose-600 hover:text-rose-700 select-none">모범 답안 보기</summary>
+                      <p className="mt-2 text-slate-600 leading-relaxed">{q.answer}</p>
+                      {q.rubric.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs text-slate-500 list-disc pl-4">
+                          {q.rubric.map((point, i) => <li key={i}>{point}</li>)}
+                        </ul>
+                      )}
+                    </details>
+                  )}
+                </div>
               </div>
             ))}
           </div>
         </section>
 
+        {/* Class Q&A Section */}
+        {classQuestions.length > 0 && (
+          <section className="space-y-3">
+            <div className="flex items-center gap-2 text-amber-600">
+              <MessagesSquare size={20} />
+              <h2 className="font-semibold text-lg">수업 중 Q&A</h2>
+            </div>
+            <div className="space-y-3">
+              {classQuestions.map((q, idx) => (
+                <div key={idx} data-focus={`classQuestion-${idx}`} className={`bg-amber-50/50 p-4 rounded-lg border border-amber-100 space-y-2 ${flashClass(`classQuestion-${idx}`)}`}>
+                  <div className="flex items-start gap-3">
+                    <button
+                      onClick={() => handleSeek(q.time)}
+                      className="flex-shrink-0 font-mono text-xs text-amber-700 bg-amber-100 hover:bg-amber-200 px-1.5 py-0.5 rounded transition-colors mt-0.5"
+                      title="이 부분부터 재생"
+                    >
+                      {formatTime(Math.floor(q.time))}
+                    </button>
+                    <p className="text-slate-800 font-medium">{q.question}</p>
+                  </div>
+                  {q.answer && <p className="text-sm text-slate-600 leading-relaxed pl-14">{q.answer}</p>}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Transcript Section */}
         <section className="space-y-3 pt-4 border-t border-slate-200">
           <div className="flex items-center gap-2 text-slate-500">
             <FileText size={20} />
             <h2 className="font-semibold text-lg">전체 스크립트</h2>
           </div>
-          <div className="bg-slate-50 p-5 rounded-xl text-slate-600 text-sm leading-7 whitespace-pre-wrap font-sans">
-            {transcript}
-          </div>
+          {speakers.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-xs text-slate-400">화자 이름 (눌러서 변경)</span>
+              {speakers.map(speaker => editingSpeaker === speaker ? (
+                <form
+                  key={speaker}
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveSpeakerName();
+                  }}
+                  className="flex items-center gap-1"
+                >
+                  <input
+                    type="text"
+                    value={speakerDraft}
+                    onChange={(e) => setSpeakerDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingSpeaker(null)}
+                    className="w-28 px-2 py-1 text-xs border border-slate-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                    autoFocus
+                  />
+                  <button type="submit" className="p-1 text-indigo-600 hover:bg-indigo-50 rounded-md">
+                    <Check size={14} />
+                  </button>
+                </form>
+              ) : (
+                <button
+                  key={speaker}
+                  onClick={() => startRenamingSpeaker(speaker)}
+                  className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                    speaker === 'professor' ? 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+                  }`}
+                >
+                  {getSpeakerName(speaker, speakerNames)}
+                </button>
+              ))}
+            </div>
+          )}
+          <TranscriptView
+            segments={transcript}
+            currentTime={currentTime}
+            isPlaying={isPlaying}
+            flashIndex={flashKey?.startsWith('transcript-') ? Number(flashKey.slice('transcript-'.length)) : null}
+            speakerNames={speakerNames}
+            onSeek={handleSeek}
+          />
         </section>
       </>
     );
@@ -228,20 +551,37 @@ ${transcript}
           </div>
         </div>
         
-        {recording.status === 'completed' && (
-          <button
-            onClick={handleDownloadNote}
-            className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
-            title="강의 노트 다운로드"
-          >
-            <FileText size={18} />
-            <span className="hidden sm:inline">노트 저장</span>
-          </button>
+        {recording.status === 'completed' && !isEditing && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsEditing(true)}
+              className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+              title="노트 편집"
+            >
+              <Pencil size={18} />
+            </button>
+            <button
+              onClick={() => setIsHistoryOpen(true)}
+              className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-slate-100 rounded-lg transition-colors"
+              title="수정 기록"
+            >
+              <History size={18} />
+            </button>
+            <button
+              onClick={onStudy}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-50 text-emerald-700 hover:bg-emerald-100 rounded-lg text-sm font-medium transition-colors"
+              title="플래시카드로 복습"
+            >
+              <Layers size={18} />
+              <span className="hidden sm:inline">플래시카드</span>
+            </button>
+            <ExportMenu label="내보내기" title="강의 노트 내보내기" onExport={handleExport} />
+          </div>
         )}
       </div>
 
       {/* Scrollable Content */}
-      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+      <div ref={contentRef} className="flex-1 overflow-y-auto p-6 space-y-8">
         
         {/* Audio Player Section - Always visible if audio exists */}
         <section className="bg-slate-900 rounded-xl p-4 text-white shadow-lg">
@@ -253,8 +593,18 @@ ${transcript}
                <div>
                  <h3 className="font-semibold text-slate-100">강의 녹음 파일</h3>
                  <p className="text-xs text-slate-400">
-                   {isLoadingAudio ? '오디오 파일 불러오는 중...' : audioUrl ? '재생 준비 완료' : '오디오 파일을 찾을 수 없습니다'}
+                   {isLoadingAudio ? '오디오 파일 불러오는 중...'
+                     : audioUrl ? '재생 준비 완료'
+                     : recording.audioDiscardedAt ? `저장 공간 확보를 위해 ${formatDate(recording.audioDiscardedAt)}에 오디오를 삭제했습니다`
+                     : '오디오 파일을 찾을 수 없습니다'}
                  </p>
+                 {audioUrl && recording.audioSize !== undefined && (
+                   <p className="text-xs text-slate-500">
+                     {recording.originalAudioSize
+                       ? `${formatFileSize(recording.originalAudioSize)} → ${formatFileSize(recording.audioSize)} (${Math.round((1 - recording.audioSize / recording.originalAudioSize) * 100)}% 절약)`
+                       : formatFileSize(recording.audioSize)}
+                   </p>
+                 )}
                </div>
              </div>
              {audioUrl && (
@@ -269,15 +619,100 @@ ${transcript}
           </div>
           
           {audioUrl && (
-            <audio controls className="w-full h-10 block rounded-lg accent-indigo-500" src={audioUrl}>
+            <audio
+              ref={audioRef}
+              controls
+              className="w-full h-10 block rounded-lg accent-indigo-500"
+              src={audioUrl}
+              onTimeUpdate={(e) => {
+                const audio = e.currentTarget;
+                const silence = skipSilence && recording.silences ? findSilence(recording.silences, audio.currentTime) : undefined;
+                if (silence && !audio.paused) {
+                  audio.currentTime = silence.end;
+                }
+                setCurrentTime(audio.currentTime);
+              }}
+              onPlay={() => setIsPlaying(true)}
+              onPause={() => setIsPlaying(false)}
+              onLoadedMetadata={(e) => {
+                if (pendingSeekRef.current !== null) {
+                  e.currentTarget.currentTime = pendingSeekRef.current;
+                  pendingSeekRef.current = null;
+                }
+              }}
+            >
               Your browser does not support the audio element.
             </audio>
           )}
+
+          {audioUrl && recording.silences && recording.silences.length > 0 && (
+            <div className="mt-3 flex items-center justify-between gap-3 text-xs text-slate-400">
+              <span>
+                무음 구간 {recording.silences.length}개 · 총 {formatTime(Math.round(totalSilence(recording.silences)))}
+              </span>
+              <button
+                onClick={() => setSkipSilence(prev => !prev)}
+                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-md transition-colors ${
+                  skipSilence ? 'bg-indigo-500/20 text-indigo-200 hover:bg-indigo-500/30' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                }`}
+              >
+                <FastForward size={12} />
+                무음 건너뛰기 {skipSilence ? '켜짐' : '꺼짐'}
+              </button>
+            </div>
+          )}
+
+          {audioUrl && recording.markers && recording.markers.length > 0 && (
+            <div className="mt-4 space-y-3">
+              <div className="relative h-2 bg-slate-700 rounded-full">
+                {recording.duration > 0 && (
+                  <div
+                    className="absolute inset-y-0 left-0 bg-indigo-500/60 rounded-full"
+                    style={{ width: `${Math.min(100, (currentTime / recording.duration) * 100)}%` }}
+                  />
+                )}
+                {recording.markers.map((marker, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => handleSeek(marker.time)}
+                    className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 rounded-full bg-amber-400 ring-2 ring-slate-900 hover:scale-125 transition-transform"
+                    style={{ left: `${recording.duration > 0 ? Math.min(100, (marker.time / recording.duration) * 100) : 0}%` }}
+                    title={`${formatTime(marker.time)}${marker.label ? ` ${marker.label}` : ''}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {recording.markers.map((marker, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => handleSeek(marker.time)}
+                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs bg-amber-400/15 text-amber-200 hover:bg-amber-400/25 transition-colors"
+                  >
+                    <Flag size={12} />
+                    <span className="font-mono">{formatTime(marker.time)}</span>
+                    {marker.label && <span className="text-amber-100">{marker.label}</span>}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </section>
 
         {renderContent()}
 
       </div>
+
+      {isHistoryOpen && recording.data && (
+        <RevisionHistory
+          recordingId={recording.id}
+          current={recording.data}
+          onRevert={(data) => {
+            onSaveNote(data, 'revert');
+            setIsHistoryOpen(false);
+          }}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
     </div>
   );
 };
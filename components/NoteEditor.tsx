@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Check, X, BookOpen, CheckCircle, HelpCircle, MessagesSquare, FileText, StickyNote } from 'lucide-react';
+import { NoteData } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { findFirstMention } from '../utils/noteUtils';
+
+interface NoteEditorProps {
+  data: NoteData;
+  onSave: (data: NoteData) => void;
+  onCancel: () => void;
+}
+
+const fieldClassName = "w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+const SectionTitle: React.FC<{ icon: React.ReactNode; title: string; className: string }> = ({ icon, title, className }) => (
+  <div className={`flex items-center gap-2 ${className}`}>
+    {icon}
+    <h2 className="font-semibold text-lg">{title}</h2>
+  </div>
+);
+
+const NoteEditor: React.FC<NoteEditorProps> = ({ data, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<NoteData>(data);
+
+  const update = <K extends keyof NoteData>(key: K, value: NoteData[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateItem = <K extends 'keyTerms' | 'examQuestions' | 'classQuestions' | 'transcript'>(
+    key: K,
+    index: number,
+    changes: Partial<NoteData[K][number]>
+  ) => {
+    setDraft(prev => ({
+      ...prev,
+      [key]: (prev[key] as NoteData[K][number][]).map((item, i) => i === index ? { ...item, ...changes } : item),
+    }));
+  };
+
+  const removeItem = (key: 'keyTerms' | 'examQuestions' | 'classQuestions', index: number) => {
+    setDraft(prev => ({ ...prev, [key]: (prev[key] as unknown[]).filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      keyTerms: draft.keyTerms
+        .filter(t => t.term.trim())
+        .map(t => {
+          const original = data.keyTerms.find(o => o.term === t.term);
+          // A renamed or new term gets its first mention looked up again
+          return {
+            ...t,
+            term: t.term.trim(),
+            definition: t.definition.trim(),
+            firstMentionTime: original ? original.firstMentionTime : findFirstMention(t.term, draft.transcript),
+          };
+        }),
+      examQuestions: draft.examQuestions
+        .filter(q => q.question.trim())
+        .map(q => ({ ...q, rubric: q.rubric.map(r => r.trim()).filter(Boolean) })),
+      classQuestions: draft.classQuestions.filter(q => q.question.trim()),
+    });
+  };
+
+  return (
+    <>
+      <div className="sticky top-0 z-10 -mx-6 -mt-6 px-6 py-3 bg-amber-50 border-b border-amber-100 flex items-center gap-3">
+        <p className="flex-1 text-sm text-amber-800">편집 중입니다. 저장하면 이전 버전은 기록에 남습니다.</p>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-slate-700 bg-white hover:bg-slate-100 border border-slate-200 rounded-lg text-sm font-medium transition-colors"
+        >
+          <X size={16} />
+          취소
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg text-sm font-medium shadow-sm transition-colors"
+        >
+          <Check size={16} />
+          저장
+        </button>
+      </div>
+
+      <section className="space-y-3">
+        <SectionTitle icon={<BookOpen size={20} />} title="핵심 요약" className="text-indigo-600" />
+        <textarea
+          value={draft.summary}
+          onChange={(e) => update('summary', e.target.value)}
+          rows={6}
+          className={fieldClassName}
+        />
+      </section>
+
+      <section className="space-y-3">
+        <SectionTitle icon={<StickyNote size={20} />} title="내 메모" className="text-sky-600" />
+        <textarea
+          value={draft.personalNotes}
+          onChange={(e) => update('personalNotes', e.target.value)}
+          rows={4}
+          className={fieldClassName}
+          placeholder="수업 중 떠오른 생각, 교수님이 강조한 부분 등을 자유롭게 적어두세요"
+        />
+      </section>
+
+      <section className="space-y-3">
+        <SectionTitle icon={<CheckCircle size={20} />} title="주요 용어" className="text-emerald-600" />
+        {draft.keyTerms.map((t, idx) => (
+          <div key={idx} className="flex gap-2 items-start">
+            <input
+              type="text"
+              value={t.term}
+              onChange={(e) => updateItem('keyTerms', idx, { term: e.target.value })}
+              className={`${fieldClassName} sm:w-48 flex-shrink-0`}
+              placeholder="용어"
+            />
+            <textarea
+              value={t.definition}
+              onChange={(e) => updateItem('keyTerms', idx, { definition: e.target.value })}
+              rows={1}
+              className={fieldClassName}
+              placeholder="정의"
+            />
+            <button
+              onClick={() => removeItem('keyTerms', idx)}
+              className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-md transition-colors"
+              title="삭제"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update('keyTerms', [...draft.keyTerms, { term: '', definition: '', firstMentionTime: null }])}
+          className="text-sm text-emerald-700 hover:text-emerald-800 font-medium flex items-center gap-1"
+        >
+          <Plus size={16} />
+          용어 추가
+        </button>
+      </section>
+
+      <section className="space-y-3">
+        <SectionTitle icon={<HelpCircle size={20} />} title="예상 시험 문제" className="text-rose-600" />
+        {draft.examQuestions.map((q, idx) => (
+          <div key={idx} className="p-4 rounded-lg border border-slate-200 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-rose-600">Q{idx + 1}</span>
+              <button
+                onClick={() => removeItem('examQuestions', idx)}
+                className="p-1.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-md transition-colors"
+                title="삭제"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <textarea
+              value={q.question}
+              onChange={(e) => updateItem('examQuestions', idx, { question: e.target.value })}
+              rows={2}
+              className={fieldClassName}
+              placeholder="문제"
+            />
+            <textarea
+              value={q.answer}
+              onChange={(e) => updateItem('examQuestions', idx, { answer: e.target.value })}
+              rows={3}
+              className={fieldClassName}
+              placeholder="모범 답안"
+            />
+            <textarea
+              value={q.rubric.join('\n')}
+              onChange={(e) => updateItem('examQuestions', idx, { rubric: e.target.value.split('\n') })}
+              rows={2}
+              className={fieldClassName}
+              placeholder="채점 기준 (한 줄에 하나씩)"
+            />
+          </div>
+        ))}
+        <button
+          onClick={() => update('examQuestions', [...draft.examQuestions, { question: '', answer: '', rubric: [] }])}
+          className="text-sm text-rose-700 hover:text-rose-800 font-medium flex items-center gap-1"
+        >
+          <Plus size={16} />
+          문제 추가
+        </button>
+      </section>
+
+      {draft.classQuestions.length > 0 && (
+        <section className="space-y-3">
+          <SectionTitle icon={<MessagesSquare size={20} />} title="수업 중 Q&A" className="text-amber-600" />
+          {draft.classQuestions.map((q, idx) => (
+            <div key={idx} className="p-4 rounded-lg border border-slate-200 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-mono text-xs text-amber-700">{formatTime(Math.floor(q.time))}</span>
+                <button
+                  onClick={() => removeItem('classQuestions', idx)}
+                  className="p-1.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-md transition-colors"
+                  title="삭제"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              <textarea
+                value={q.question}
+                onChange={(e) => updateItem('classQuestions', idx, { question: e.target.value })}
+                rows={2}
+                className={fieldClassName}
+                placeholder="질문"
+              />
+              <textarea
+                value={q.answer}
+                onChange={(e) => updateItem('classQuestions', idx, { answer: e.target.value })}
+                rows={2}
+                className={fieldClassName}
+                placeholder="답변"
+              />
+            </div>
+          ))}
+        </section>
+      )}
+
+      <section className="space-y-3 pt-4 border-t border-slate-200">
+        <SectionTitle icon={<FileText size={20} />} title="전체 스크립트" className="text-slate-500" />
+        <div className="space-y-1">
+          {draft.transcript.map((seg, idx) => (
+            <div key={idx} className="flex gap-3 items-start">
+              <span className="flex-shrink-0 font-mono text-xs text-slate-400 pt-2.5 w-12">
+                {formatTime(Math.floor(seg.start))}
+              </span>
+              <textarea
+                value={seg.text}
+                onChange={(e) => updateItem('transcript', idx, { text: e.target.value })}
+                rows={1}
+                className={fieldClassName}
+              />
+            </div>
+          ))}
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default NoteEditor;
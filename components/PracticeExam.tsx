@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Loader2, Send, RotateCcw, History, AlertCircle } from 'lucide-react';
+import { QuizAttempt, Recording } from '../types';
+import { formatDate } from '../utils/audioUtils';
+
+interface PracticeExamProps {
+  recording: Recording;
+  onSubmit: (answers: string[]) => Promise<QuizAttempt>;
+  onClose: () => void;
+}
+
+const scoreColor = (score: number): string => {
+  if (score >= 80) return 'text-emerald-600 bg-emerald-50';
+  if (score >= 50) return 'text-amber-600 bg-amber-50';
+  return 'text-rose-600 bg-rose-50';
+};
+
+const PracticeExam: React.FC<PracticeExamProps> = ({ recording, onSubmit, onClose }) => {
+  const questions = recording.data?.examQuestions || [];
+  const attempts = recording.quizAttempts || [];
+
+  const [answers, setAnswers] = useState<string[]>(() => questions.map(() => ''));
+  const [isGrading, setIsGrading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewedAttempt, setViewedAttempt] = useState<QuizAttempt | null>(null);
+
+  const handleSubmit = async () => {
+    setIsGrading(true);
+    setError(null);
+    try {
+      const attempt = await onSubmit(answers);
+      setViewedAttempt(attempt);
+    } catch (err) {
+      console.error("Grading failed:", err);
+      setError('채점 중 오류가 발생했습니다. 답안은 그대로 남아 있으니 다시 시도해주세요.');
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  const restart = () => {
+    setAnswers(questions.map(() => ''));
+    setViewedAttempt(null);
+    setError(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-hidden">
+      <div className="border-b border-slate-200 p-4 flex items-center gap-4 bg-white">
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-xl font-bold text-slate-900 leading-tight">연습 시험</h1>
+          <p className="text-sm text-slate-500 mt-1">{recording.title}</p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {viewedAttempt ? (
+          <>
+            <div className="flex items-center justify-between bg-slate-50 border border-slate-200 rounded-xl p-5">
+              <div>
+                <p className="text-sm text-slate-500">{formatDate(viewedAttempt.date)} 응시</p>
+                <p className="text-lg font-bold text-slate-800">총점</p>
+              </div>
+              <span className={`text-3xl font-bold px-4 py-2 rounded-xl ${scoreColor(viewedAttempt.totalScore)}`}>
+                {viewedAttempt.totalScore}점
+              </span>
+            </div>
+
+            {viewedAttempt.results.map(result => (
+              <section key={result.questionIndex} className="bg-white border border-slate-200 rounded-xl p-5 space-y-3">
+                <div className="flex items-start gap-3">
+                  <span className="flex-shrink-0 w-6 h-6 rounded-full bg-rose-100 text-rose-600 flex items-center justify-center font-bold text-xs">
+                    Q{result.questionIndex + 1}
+                  </span>
+                  <p className="flex-1 text-slate-800 font-medium">{result.question}</p>
+                  <span className={`text-sm font-bold px-2 py-0.5 rounded ${scoreColor(result.score)}`}>{result.score}점</span>
+                </div>
+                <div className="text-sm space-y-2 pl-9">
+                  <p className="text-slate-500">내 답안</p>
+                  <p className="text-slate-700 whitespace-pre-wrap bg-slate-50 rounded-lg p-3">{result.answer || '(답안 없음)'}</p>
+                  <p className="text-slate-500">피드백</p>
+                  <p className="text-slate-700 leading-relaxed">{result.feedback}</p>
+                  {result.modelAnswer && (
+                    <details>
+                      <summary className="cursor-pointer text-rose-600 hover:text-rose-700 select-none">모범 답안 보기</summary>
+                      <p className="mt-2 text-slate-600 leading-relaxed">{result.modelAnswer}</p>
+                    </details>
+                  )}
+                </div>
+              </section>
+            ))}
+
+            <button
+              onClick={restart}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-medium shadow-md transition-all active:scale-95"
+            >
+              <RotateCcw size={18} />
+              다시 풀기
+            </button>
+          </>
+        ) : (
+          <>
+            {questions.map((q, idx) => (
+              <section key={idx} className="space-y-3">
+                <div className="flex items-start gap-3">
+                  <span className="flex-shrink-0 w-6 h-6 rounded-full bg-rose-100 text-rose-600 flex items-center justify-center font-bold text-xs">
+                    Q{idx + 1}
+                  </span>
+                  <p className="text-slate-800 font-medium">{q.question}</p>
+                </div>
+                <textarea
+                  value={answers[idx]}
+                  onChange={(e) => setAnswers(prev => prev.map((a, i) => i === idx ? e.target.value : a))}
+                  disabled={isGrading}
+                  rows={4}
+                  className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all text-sm disabled:bg-slate-50"
+                  placeholder="답안을 작성하세요"
+                />
+              </section>
+            ))}
+
+            {error && (
+              <div className="p-4 bg-red-50 text-red-600 rounded-lg text-sm flex items-center gap-2">
+                <AlertCircle size={16} />
+                {error}
+              </div>
+            )}
+
+            <button
+              onClick={handleSubmit}
+              disabled={isGrading || answers.every(a => !a.trim())}
+              className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white rounded-xl font-medium shadow-md transition-all active:scale-95"
+            >
+              {isGrading ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
+              {isGrading ? 'AI가 채점하는 중...' : '제출하고 채점받기'}
+            </button>
+          </>
+        )}
+
+        {attempts.length > 0 && (
+          <section className="pt-4 border-t border-slate-200 space-y-2">
+            <div className="flex items-center gap-2 text-slate-500">
+              <History size={18} />
+              <h2 className="font-semibold">응시 기록</h2>
+            </div>
+            {[...attempts].reverse().map(attempt => (
+              <button
+                key={attempt.id}
+                onClick={() => setViewedAttempt(attempt)}
+                className={`w-full flex items-center justify-between p-3 rounded-lg border text-sm transition-colors ${
+                  viewedAttempt?.id === attempt.id ? 'border-indigo-200 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <span className="text-slate-600">{formatDate(attempt.date)}</span>
+                <span className={`font-bold px-2 py-0.5 rounded ${scoreColor(attempt.totalScore)}`}>{attempt.totalScore}점</span>
+              </button>
+            ))}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeExam;
@@ -1,38 +1,57 @@
 import React from 'react';
-import { Mic, Square } from 'lucide-react';
+import { Mic, Square, Pause, Play, Flag, X } from 'lucide-react';
+import { LectureMarker } from '../types';
 import { formatTime } from '../utils/audioUtils';
 import Visualizer from './Visualizer';
 
 interface RecorderProps {
   isRecording: boolean;
+  isPaused: boolean;
+  isAutoPaused: boolean; // paused by voice activity detection, resumes when speech returns
   duration: number;
   analyser: AnalyserNode | null;
   permissionError: string | null;
+  markers: LectureMarker[];
   onToggleRecording: () => void;
+  onTogglePause: () => void;
+  onAddMarker: () => void;
+  onUpdateMarker: (index: number, label: string) => void;
+  onRemoveMarker: (index: number) => void;
 }
 
 const Recorder: React.FC<RecorderProps> = ({ 
   isRecording, 
+  isPaused,
+  isAutoPaused,
   duration, 
   analyser, 
   permissionError, 
-  onToggleRecording 
+  markers,
+  onToggleRecording,
+  onTogglePause,
+  onAddMarker,
+  onUpdateMarker,
+  onRemoveMarker
 }) => {
   return (
     <div className="flex flex-col items-center justify-center space-y-8 p-8 w-full max-w-2xl mx-auto flex-1">
       <div className="text-center space-y-2">
         <h2 className="text-2xl font-bold text-slate-800">
-          {isRecording ? "강의 녹음 중..." : "새로운 강의 녹음"}
+          {isRecording ? (isPaused ? "녹음 일시정지됨" : "강의 녹음 중...") : "새로운 강의 녹음"}
         </h2>
         <p className="text-slate-500">
           {isRecording 
-            ? "다른 페이지로 이동해도 녹음은 계속됩니다." 
+            ? (isAutoPaused
+              ? "무음이 계속되어 잠시 멈췄습니다. 다시 말소리가 들리면 자동으로 이어서 녹음합니다."
+              : isPaused
+              ? "쉬는 시간은 녹음되지 않습니다. 재개 버튼을 눌러 이어서 녹음하세요."
+              : "다른 페이지로 이동해도 녹음은 계속됩니다.")
             : "버튼을 눌러 녹음을 시작하세요. AI가 자동으로 정리해드립니다."}
         </p>
       </div>
 
       <div className="relative w-full flex justify-center py-6">
-        {isRecording && (
+        {isRecording && !isPaused && (
           <div className="absolute inset-0 flex items-center justify-center opacity-20 pointer-events-none">
             <div className="animate-ping absolute inline-flex h-48 w-48 rounded-full bg-indigo-400 opacity-75"></div>
           </div>
@@ -52,14 +71,60 @@ const Recorder: React.FC<RecorderProps> = ({
             <Mic size={36} />
           )}
         </button>
+
+        {isRecording && (
+          <button
+            onClick={onTogglePause}
+            className="absolute z-10 left-1/2 top-1/2 -translate-y-1/2 translate-x-16 flex items-center justify-center w-14 h-14 rounded-full shadow-lg bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 transition-all"
+            title={isPaused ? "녹음 재개" : "일시정지"}
+          >
+            {isPaused ? <Play size={22} fill="currentColor" /> : <Pause size={22} fill="currentColor" />}
+          </button>
+        )}
       </div>
 
-      <div className="text-4xl font-mono font-medium text-slate-700 tracking-wider">
+      <div className={`text-4xl font-mono font-medium tracking-wider ${isPaused ? 'text-slate-400 animate-pulse' : 'text-slate-700'}`}>
         {formatTime(duration)}
       </div>
 
+      {isRecording && (
+        <button
+          onClick={onAddMarker}
+          className="flex items-center gap-2 px-5 py-2.5 bg-amber-100 hover:bg-amber-200 text-amber-800 rounded-full font-medium shadow-sm transition-all active:scale-95"
+          title="지금 이 순간을 중요한 부분으로 표시"
+        >
+          <Flag size={18} />
+          중요 표시
+        </button>
+      )}
+
+      {isRecording && markers.length > 0 && (
+        <div className="w-full space-y-2">
+          {markers.map((marker, idx) => (
+            <div key={idx} className="flex items-center gap-3 bg-white border border-amber-100 rounded-lg px-3 py-2">
+              <Flag size={14} className="text-amber-500 flex-shrink-0" />
+              <span className="font-mono text-sm text-amber-700 flex-shrink-0">{formatTime(marker.time)}</span>
+              <input
+                type="text"
+                value={marker.label}
+                onChange={(e) => onUpdateMarker(idx, e.target.value)}
+                className="flex-1 min-w-0 text-sm text-slate-700 bg-transparent outline-none placeholder:text-slate-400"
+                placeholder="메모 (예: 시험에 나옴)"
+              />
+              <button
+                onClick={() => onRemoveMarker(idx)}
+                className="p-1 text-slate-400 hover:text-rose-500 rounded transition-colors"
+                title="표시 삭제"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="w-full bg-slate-100 rounded-xl overflow-hidden shadow-inner border border-slate-200">
-        <Visualizer analyser={analyser} isRecording={isRecording} />
+        <Visualizer analyser={analyser} isRecording={isRecording && !isPaused} />
       </div>
 
       {permissionError && (
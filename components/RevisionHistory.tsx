@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Loader2, Undo2, Sparkles, Pencil, History } from 'lucide-react';
+import { NoteData, NoteRevision } from '../types';
+import { findOriginal, getRevisions } from '../services/revisionService';
+import { diffNotes, DiffPart } from '../utils/diffUtils';
+import { formatDate } from '../utils/audioUtils';
+
+interface RevisionHistoryProps {
+  recordingId: string;
+  current: NoteData;
+  onRevert: (data: NoteData) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<NoteRevision['source'], string> = {
+  analysis: 'AI 분석 결과',
+  edit: '직접 수정',
+  revert: '이전 버전으로 되돌림',
+};
+
+// Unchanged runs longer than this many lines are shortened to their first and last lines
+const MAX_CONTEXT_LINES = 6;
+
+const collapseUnchanged = (text: string): string => {
+  const lines = text.split('\n');
+  if (lines.length <= MAX_CONTEXT_LINES) return text;
+  // A trailing line break leaves an empty last element that must survive the join
+  const hidden = lines.length - 5;
+  return [...lines.slice(0, 2), `… 변경 없는 ${hidden}줄 …`, ...lines.slice(-3)].join('\n');
+};
+
+const DiffText: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <p className="text-sm leading-relaxed whitespace-pre-wrap text-slate-600">
+    {parts.map((part, i) => part.type === 'same' ? (
+      <React.Fragment key={i}>{collapseUnchanged(part.text)}</React.Fragment>
+    ) : (
+      <span
+        key={i}
+        className={part.type === 'added' ? 'bg-emerald-100 text-emerald-900' : 'bg-rose-100 text-rose-900 line-through'}
+      >
+        {part.text}
+      </span>
+    ))}
+  </p>
+);
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ recordingId, current, onRevert, onClose }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  // null = the current version of the note
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getRevisions(recordingId)
+      .then(setRevisions)
+      .catch(error => {
+        console.error("Failed to load note revisions:", error);
+        setRevisions([]);
+      });
+  }, [recordingId]);
+
+  const original = revisions ? findOriginal(revisions) : undefined;
+  const selected = revisions?.find(rev => rev.id === selectedId);
+  const compared = selected ? selected.data : current;
+
+  const sections = useMemo(
+    () => original ? diffNotes(original.data, compared).filter(section => section.changed) : [],
+    [original, compared]
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl p-6 animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-bold text-slate-900">수정 기록</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!revisions ? (
+          <div className="flex justify-center py-12 text-slate-400">
+            <Loader2 size={24} className="animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-12 text-slate-400 space-y-3">
+            <History size={32} className="mx-auto text-slate-300" />
+            <p>아직 수정한 적이 없는 노트입니다.</p>
+          </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-4 min-h-0 flex-1">
+            <div className="sm:w-56 flex-shrink-0 space-y-1 overflow-y-auto">
+              <button
+                onClick={() => setSelectedId(null)}
+                className={`w-full text-left p-3 rounded-lg border text-sm transition-colors ${
+                  selectedId === null ? 'border-indigo-200 bg-indigo-50' : 'border-transparent hover:bg-slate-50'
+                }`}
+              >
+                <span className="block font-medium text-slate-800">현재 버전</span>
+              </button>
+              {[...revisions].reverse().map(rev => (
+                <button
+                  key={rev.id}
+                  onClick={() => setSelectedId(rev.id)}
+                  className={`w-full text-left p-3 rounded-lg border text-sm transition-colors ${
+                    selectedId === rev.id ? 'border-indigo-200 bg-indigo-50' : 'border-transparent hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="flex items-center gap-1.5 font-medium text-slate-800">
+                    {rev.source === 'analysis' ? <Sparkles size={14} className="text-indigo-500" /> : <Pencil size={14} className="text-slate-400" />}
+                    {SOURCE_LABELS[rev.source]}
+                  </span>
+                  <span className="block text-xs text-slate-500 mt-0.5">{formatDate(rev.date)}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0 overflow-y-auto space-y-4">
+              <p className="text-xs text-slate-500">
+                {original && `${formatDate(original.date)} AI 분석 결과와 비교한 변경 사항입니다.`}
+              </p>
+              {sections.length === 0 ? (
+                <p className="text-sm text-slate-400 py-8 text-center">AI 분석 결과와 같습니다.</p>
+              ) : sections.map(section => (
+                <section key={section.label} className="space-y-1.5">
+                  <h4 className="text-sm font-semibold text-slate-700">{section.label}</h4>
+                  <div className="bg-slate-50 rounded-lg p-3">
+                    <DiffText parts={section.parts} />
+                  </div>
+                </section>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg font-medium transition-colors"
+          >
+            닫기
+          </button>
+          {selected && (
+            <button
+              onClick={() => onRevert(selected.data)}
+              className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg font-medium shadow-md transition-all active:scale-95 flex items-center justify-center gap-2"
+            >
+              <Undo2 size={18} />
+              이 버전으로 되돌리기
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
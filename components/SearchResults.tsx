@@ -0,0 +1,83 @@
+import React from 'react';
+import { SearchX } from 'lucide-react';
+import { Recording } from '../types';
+import { SearchField, SearchHit, SearchSnippet } from '../services/searchService';
+import { formatDate, formatTime } from '../utils/audioUtils';
+
+interface SearchResultsProps {
+  hits: SearchHit[];
+  recordings: Recording[];
+  onOpen: (hit: SearchHit) => void;
+}
+
+export const FIELD_LABELS: Record<SearchField, string> = {
+  title: '제목',
+  summary: '요약',
+  keyTerm: '주요 용어',
+  examQuestion: '시험 문제',
+  classQuestion: '수업 Q&A',
+  transcript: '스크립트',
+};
+
+export const HighlightedText: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="bg-amber-200 text-slate-900 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+const SearchResults: React.FC<SearchResultsProps> = ({ hits, recordings, onOpen }) => {
+  if (hits.length === 0) {
+    return (
+      <div className="text-center py-10 px-4 text-slate-400 text-sm">
+        <SearchX size={28} className="mx-auto mb-2 text-slate-300" />
+        <p>검색 결과가 없습니다.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {hits.map((hit, idx) => {
+        const recording = recordings.find(r => r.id === hit.recordingId);
+        if (!recording) return null;
+        const segment = hit.field === 'transcript' ? recording.data?.transcript[hit.index] : undefined;
+
+        return (
+          <button
+            key={`${hit.recordingId}-${hit.field}-${hit.index}-${idx}`}
+            onClick={() => onOpen(hit)}
+            className="w-full text-left p-3 rounded-lg hover:bg-slate-50 border border-transparent hover:border-slate-100 transition-colors"
+          >
+            <div className="flex items-center gap-2 text-xs text-slate-500 mb-1">
+              <span className="font-medium text-slate-700 truncate">{recording.title}</span>
+              <span className="ml-auto flex-shrink-0">{formatDate(recording.date)}</span>
+            </div>
+            <div className="flex items-center gap-1 mb-1">
+              <span className="text-[10px] font-semibold uppercase tracking-wider bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded">
+                {FIELD_LABELS[hit.field]}
+              </span>
+              {segment && (
+                <span className="text-[10px] font-mono text-slate-400">{formatTime(Math.floor(segment.start))}</span>
+              )}
+            </div>
+            <p className="text-sm text-slate-600 leading-relaxed line-clamp-3">
+              <HighlightedText snippet={hit.snippet} />
+            </p>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SearchResults;
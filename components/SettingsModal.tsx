@@ -0,0 +1,380 @@
+import React, { useRef, useState } from 'react';
+import { X, Check, Cloud, Server, Archive, ArchiveRestore, Loader2, Plus, Trash2 } from 'lucide-react';
+import { AnalysisPreferences, AnalysisProviderId, AppSettings, AudioQualityPreset, OutputLanguage, PromptTemplate, SummaryStyle } from '../types';
+
+interface SettingsModalProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+  onBackup: () => Promise<void>;
+  onRestore: (file: File) => Promise<void>;
+  subjects: string[]; // existing subject folders that templates can be assigned to
+}
+
+const PROVIDERS: { id: AnalysisProviderId; label: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Gemini API로 녹음을 분석합니다.', icon: <Cloud size={18} /> },
+  { id: 'local', label: '로컬 서버', description: '직접 운영하는 Whisper + LLM 서버로 분석합니다.', icon: <Server size={18} /> },
+];
+
+const LANGUAGES: { id: OutputLanguage; label: string }[] = [
+  { id: 'ko', label: '한국어' },
+  { id: 'en', label: 'English' },
+  { id: 'lecture', label: '강의 언어 그대로' },
+];
+
+const AUDIO_QUALITIES: { id: AudioQualityPreset; label: string }[] = [
+  { id: 'standard', label: '표준 (음성용, 약 10MB/시간)' },
+  { id: 'compact', label: '절약 (약 5MB/시간)' },
+  { id: 'original', label: '원본 그대로' },
+];
+
+const SUMMARY_STYLES: { id: SummaryStyle; label: string }[] = [
+  { id: 'concise', label: '간결하게' },
+  { id: 'detailed', label: '자세하게' },
+  { id: 'bullets', label: '글머리 기호 목록' },
+];
+
+const MAX_EXAM_QUESTIONS = 10;
+
+const inputClassName = "w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+interface PreferencesFieldsProps {
+  value: AnalysisPreferences;
+  onChange: (value: AnalysisPreferences) => void;
+}
+
+const PreferencesFields: React.FC<PreferencesFieldsProps> = ({ value, onChange }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-2 gap-2">
+      <label className="block">
+        <span className="block text-xs text-slate-500 mb-1">노트 언어</span>
+        <select
+          value={value.language}
+          onChange={(e) => onChange({ ...value, language: e.target.value as OutputLanguage })}
+          className={inputClassName}
+        >
+          {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+        </select>
+      </label>
+      <label className="block">
+        <span className="block text-xs text-slate-500 mb-1">시험 문제 수</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_EXAM_QUESTIONS}
+          value={value.examQuestionCount}
+          onChange={(e) => onChange({
+            ...value,
+            examQuestionCount: Math.max(1, Math.min(MAX_EXAM_QUESTIONS, Math.round(Number(e.target.value)) || 1)),
+          })}
+          className={inputClassName}
+        />
+      </label>
+    </div>
+    <label className="block">
+      <span className="block text-xs text-slate-500 mb-1">요약 방식</span>
+      <select
+        value={value.summaryStyle}
+        onChange={(e) => onChange({ ...value, summaryStyle: e.target.value as SummaryStyle })}
+        className={inputClassName}
+      >
+        {SUMMARY_STYLES.map(style => <option key={style.id} value={style.id}>{style.label}</option>)}
+      </select>
+    </label>
+    <label className="block">
+      <span className="block text-xs text-slate-500 mb-1">추가 지시사항</span>
+      <textarea
+        value={value.customInstructions}
+        onChange={(e) => onChange({ ...value, customInstructions: e.target.value })}
+        rows={2}
+        className={inputClassName}
+        placeholder="예: 수식은 LaTeX로 적어줘, 코드 예시를 포함해줘"
+      />
+    </label>
+  </div>
+);
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onSave, onClose, onBackup, onRestore, subjects }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [backupTask, setBackupTask] = useState<'backup' | 'restore' | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+
+  const runBackupTask = async (task: 'backup' | 'restore', action: () => Promise<void>) => {
+    setBackupTask(task);
+    try {
+      await action();
+    } finally {
+      setBackupTask(null);
+    }
+  };
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateTemplate = (id: string, changes: Partial<PromptTemplate>) => {
+    update('promptTemplates', draft.promptTemplates.map(t => t.id === id ? { ...t, ...changes } : t));
+  };
+
+  const addTemplate = () => {
+    update('promptTemplates', [
+      ...draft.promptTemplates,
+      {
+        ...draft.analysis,
+        id: Math.random().toString(36).substr(2, 9),
+        name: `템플릿 ${draft.promptTemplates.length + 1}`,
+        subjects: [],
+      },
+    ]);
+  };
+
+  const toggleTemplateSubject = (template: PromptTemplate, subject: string) => {
+    // A subject folder uses at most one template
+    update('promptTemplates', draft.promptTemplates.map(t => {
+      if (t.id === template.id) {
+        return { ...t, subjects: t.subjects.includes(subject) ? t.subjects.filter(s => s !== subject) : [...t.subjects, subject] };
+      }
+      return { ...t, subjects: t.subjects.filter(s => s !== subject) };
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 animate-in fade-in zoom-in duration-200 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-bold text-slate-900">설정</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">AI 분석 엔진</label>
+            <div className="space-y-2">
+              {PROVIDERS.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => update('provider', p.id)}
+                  className={`w-full text-left p-3 rounded-lg border flex items-start gap-3 transition-colors ${
+                    draft.provider === p.id
+                      ? 'border-indigo-300 bg-indigo-50'
+                      : 'border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className={`mt-0.5 ${draft.provider === p.id ? 'text-indigo-600' : 'text-slate-400'}`}>{p.icon}</span>
+                  <span>
+                    <span className="block text-sm font-medium text-slate-800">{p.label}</span>
+                    <span className="block text-xs text-slate-500">{p.description}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {draft.provider === 'gemini' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Gemini 모델</label>
+              <input
+                type="text"
+                value={draft.geminiModel}
+                onChange={(e) => update('geminiModel', e.target.value)}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                placeholder="gemini-2.5-flash"
+              />
+            </div>
+          )}
+
+          {draft.provider === 'local' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">서버 주소</label>
+              <input
+                type="url"
+                value={draft.localEndpoint}
+                onChange={(e) => update('localEndpoint', e.target.value)}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                placeholder="http://localhost:8000"
+              />
+              <p className="mt-1 text-xs text-slate-500">
+                서버는 <code>/analyze</code>와 <code>/generate</code> 엔드포인트를 제공해야 합니다.
+              </p>
+            </div>
+          )}
+
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">동시 분석 개수</span>
+            <select
+              value={draft.analysisConcurrency}
+              onChange={(e) => update('analysisConcurrency', Number(e.target.value))}
+              className={inputClassName}
+            >
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}개</option>)}
+            </select>
+            <span className="block mt-1 text-xs text-slate-500">
+              여러 강의를 한꺼번에 가져오면 이 개수만큼씩 차례로 분석합니다. 요청 한도 오류가 잦다면 줄여보세요.
+            </span>
+          </label>
+
+          <div className="pt-4 border-t border-slate-100">
+            <label className="block text-sm font-medium text-slate-700 mb-2">녹음</label>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.autoPauseOnSilence}
+                onChange={(e) => update('autoPauseOnSilence', e.target.checked)}
+                className="mt-0.5 w-4 h-4 accent-indigo-600"
+              />
+              <span>
+                <span className="block text-sm text-slate-800">무음이 계속되면 자동으로 일시정지</span>
+                <span className="block text-xs text-slate-500">
+                  쉬는 시간이나 조별 활동처럼 20초 넘게 조용하면 녹음을 멈추고, 말소리가 들리면 다시 이어갑니다.
+                </span>
+              </span>
+            </label>
+            <label className="block mt-3">
+              <span className="block text-xs text-slate-500 mb-1">저장 음질</span>
+              <select
+                value={draft.audioQuality}
+                onChange={(e) => update('audioQuality', e.target.value as AudioQualityPreset)}
+                className={inputClassName}
+              >
+                {AUDIO_QUALITIES.map(q => <option key={q.id} value={q.id}>{q.label}</option>)}
+              </select>
+              <span className="block mt-1 text-xs text-slate-500">
+                녹음과 가져온 파일을 음성용 형식으로 변환해 저장 공간과 업로드 용량을 줄입니다.
+              </span>
+            </label>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <label className="block text-sm font-medium text-slate-700 mb-1">노트 형식</label>
+            <p className="text-xs text-slate-500 mb-3">
+              새로 분석하는 강의에 적용됩니다. 템플릿이 지정된 과목은 템플릿 설정을 따릅니다.
+            </p>
+            <PreferencesFields value={draft.analysis} onChange={(value) => update('analysis', value)} />
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-slate-700">과목별 템플릿</label>
+              <button
+                onClick={addTemplate}
+                className="text-xs text-indigo-600 hover:text-indigo-700 font-medium flex items-center gap-1"
+              >
+                <Plus size={14} />
+                템플릿 추가
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 mb-3">
+              영어 강의나 실습 과목처럼 과목마다 다른 형식이 필요할 때 사용하세요.
+            </p>
+            <div className="space-y-3">
+              {draft.promptTemplates.map(template => (
+                <div key={template.id} className="p-3 rounded-lg border border-slate-200 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={template.name}
+                      onChange={(e) => updateTemplate(template.id, { name: e.target.value })}
+                      className={inputClassName}
+                      placeholder="템플릿 이름"
+                    />
+                    <button
+                      onClick={() => update('promptTemplates', draft.promptTemplates.filter(t => t.id !== template.id))}
+                      className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-md transition-colors"
+                      title="템플릿 삭제"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                  <div>
+                    <span className="block text-xs text-slate-500 mb-1">적용할 과목</span>
+                    {subjects.length === 0 ? (
+                      <p className="text-xs text-slate-400">아직 과목 폴더가 없습니다.</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-1.5">
+                        {subjects.map(subject => (
+                          <button
+                            key={subject}
+                            onClick={() => toggleTemplateSubject(template, subject)}
+                            className={`px-2 py-1 rounded-md text-xs border transition-colors ${
+                              template.subjects.includes(subject)
+                                ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+                                : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                            }`}
+                          >
+                            {subject}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <PreferencesFields
+                    value={template}
+                    onChange={({ language, examQuestionCount, summaryStyle, customInstructions }) =>
+                      updateTemplate(template.id, { language, examQuestionCount, summaryStyle, customInstructions })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100">
+            <label className="block text-sm font-medium text-slate-700 mb-1">백업 및 복원</label>
+            <p className="text-xs text-slate-500 mb-3">
+              모든 강의 노트와 녹음 파일을 하나의 파일로 저장하거나, 백업 파일에서 불러옵니다.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => runBackupTask('backup', onBackup)}
+                disabled={backupTask !== null}
+                className="flex-1 px-3 py-2 text-sm text-slate-700 bg-slate-100 hover:bg-slate-200 disabled:opacity-60 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+              >
+                {backupTask === 'backup' ? <Loader2 size={16} className="animate-spin" /> : <Archive size={16} />}
+                전체 백업
+              </button>
+              <button
+                onClick={() => restoreInputRef.current?.click()}
+                disabled={backupTask !== null}
+                className="flex-1 px-3 py-2 text-sm text-slate-700 bg-slate-100 hover:bg-slate-200 disabled:opacity-60 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+              >
+                {backupTask === 'restore' ? <Loader2 size={16} className="animate-spin" /> : <ArchiveRestore size={16} />}
+                백업 복원
+              </button>
+              <input
+                ref={restoreInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) runBackupTask('restore', () => onRestore(file));
+                }}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3 mt-8">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg font-medium transition-colors"
+          >
+            취소
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-1 px-4 py-2 text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg font-medium shadow-md transition-all active:scale-95 flex items-center justify-center gap-2"
+          >
+            <Check size={18} />
+            저장하기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
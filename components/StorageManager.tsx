@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, HardDrive, ShieldCheck, Trash2, Loader2, Clock } from 'lucide-react';
+import { Recording } from '../types';
+import { formatDate, formatFileSize } from '../utils/audioUtils';
+import { getAudioSizes, getStorageEstimate, isStoragePersisted, requestPersistentStorage, StorageEstimate } from '../services/storageService';
+import { canDiscardAudio, getExpiredAudio } from '../services/retentionService';
+
+interface StorageManagerProps {
+  recordings: Recording[];
+  retentionDays: number | null;
+  onChangeRetention: (days: number | null) => void;
+  onDiscardAudio: (ids: string[]) => void;
+  onOpenRecording: (id: string) => void;
+  onClose: () => void;
+}
+
+const RETENTION_OPTIONS: { days: number | null; label: string }[] = [
+  { days: null, label: '계속 보관' },
+  { days: 30, label: '30일 후 삭제' },
+  { days: 90, label: '90일 후 삭제' },
+  { days: 180, label: '180일 후 삭제' },
+  { days: 365, label: '1년 후 삭제' },
+];
+
+const StorageManager: React.FC<StorageManagerProps> = ({ recordings, retentionDays, onChangeRetention, onDiscardAudio, onOpenRecording, onClose }) => {
+  const [sizes, setSizes] = useState<Map<string, number> | null>(null);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [isPersisted, setIsPersisted] = useState(false);
+  const [persistDenied, setPersistDenied] = useState(false);
+
+  // Sizes are re-read whenever audio may have been added or discarded
+  useEffect(() => {
+    getAudioSizes()
+      .then(setSizes)
+      .catch(error => {
+        console.error("Failed to read audio sizes:", error);
+        setSizes(new Map());
+      });
+    getStorageEstimate()
+      .then(setEstimate)
+      .catch(error => console.error("Failed to estimate storage:", error));
+  }, [recordings]);
+
+  useEffect(() => {
+    isStoragePersisted()
+      .then(setIsPersisted)
+      .catch(error => console.error("Failed to check persistent storage:", error));
+  }, []);
+
+  const withAudio = useMemo(() => {
+    if (!sizes) return [];
+    return recordings
+      .filter(rec => sizes.has(rec.id))
+      .sort((a, b) => (sizes.get(b.id) || 0) - (sizes.get(a.id) || 0));
+  }, [recordings, sizes]);
+
+  const audioTotal = withAudio.reduce((sum, rec) => sum + (sizes?.get(rec.id) || 0), 0);
+  const sizeOf = (recs: Recording[]) => recs.reduce((sum, rec) => sum + (sizes?.get(rec.id) || 0), 0);
+
+  const handlePersist = async () => {
+    try {
+      const granted = await requestPersistentStorage();
+      setIsPersisted(granted);
+      setPersistDenied(!granted);
+    } catch (error) {
+      console.error("Failed to request persistent storage:", error);
+      setPersistDenied(true);
+    }
+  };
+
+  const handleRetentionChange = (days: number | null) => {
+    const expired = getExpiredAudio(recordings, days);
+    if (expired.length > 0 && !window.confirm(
+      `지금 ${expired.length}개 강의의 오디오(${formatFileSize(sizeOf(expired))})가 삭제됩니다. 노트는 그대로 남습니다. 계속하시겠습니까?`
+    )) return;
+    onChangeRetention(days);
+  };
+
+  const handleDiscard = (recording: Recording) => {
+    if (!window.confirm(`'${recording.title}'의 오디오를 삭제하시겠습니까? 노트는 그대로 남지만 다시 들을 수 없습니다.`)) return;
+    onDiscardAudio([recording.id]);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-hidden">
+      <div className="border-b border-slate-200 p-4 flex items-center gap-4 bg-white">
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-xl font-bold text-slate-900 leading-tight">저장 공간 관리</h1>
+          <p className="text-sm text-slate-500 mt-1">
+            {sizes ? `녹음 파일 ${withAudio.length}개 · ${formatFileSize(audioTotal)}` : '용량 계산 중...'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+        <section className="space-y-3">
+          <div className="flex items-center gap-2 text-indigo-600">
+            <HardDrive size={20} />
+            <h2 className="font-semibold text-lg">브라우저 저장 공간</h2>
+          </div>
+          {estimate && estimate.quota > 0 ? (
+            <div className="space-y-2">
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-500"
+                  style={{ width: `${Math.max(1, Math.min(100, (estimate.usage / estimate.quota) * 100))}%` }}
+                />
+              </div>
+              <p className="text-sm text-slate-600">
+                {formatFileSize(estimate.usage)} 사용 중 · 최대 약 {formatFileSize(estimate.quota)}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">이 브라우저는 사용량 정보를 제공하지 않습니다.</p>
+          )}
+
+          {isPersisted ? (
+            <p className="p-3 bg-emerald-50 text-emerald-800 border border-emerald-100 rounded-lg text-sm flex items-center gap-2">
+              <ShieldCheck size={16} className="flex-shrink-0" />
+              영구 저장소를 사용 중입니다. 기기 공간이 부족해도 브라우저가 강의 데이터를 지우지 않습니다.
+            </p>
+          ) : (
+            <div className="p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm space-y-2">
+              <p className="text-slate-600">
+                기기 공간이 부족하면 브라우저가 저장된 녹음과 노트를 지울 수 있습니다. 영구 저장소를 요청하면 이를 막을 수 있습니다.
+              </p>
+              {persistDenied && (
+                <p className="text-amber-700">브라우저가 요청을 거절했습니다. 사이트를 북마크하거나 앱으로 설치하면 허용될 수 있습니다.</p>
+              )}
+              <button
+                onClick={handlePersist}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 hover:bg-slate-100 text-slate-700 rounded-lg font-medium transition-colors"
+              >
+                <ShieldCheck size={16} />
+                영구 저장소 요청
+              </button>
+            </div>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <div className="flex items-center gap-2 text-amber-600">
+            <Clock size={20} />
+            <h2 className="font-semibold text-lg">오디오 보관 기간</h2>
+          </div>
+          <p className="text-sm text-slate-500">
+            분석이 끝난 강의의 오디오를 녹음한 날로부터 정한 기간이 지나면 자동으로 삭제합니다. 노트와 스크립트는 그대로 남습니다.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {RETENTION_OPTIONS.map(option => (
+              <button
+                key={option.label}
+                onClick={() => handleRetentionChange(option.days)}
+                className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                  retentionDays === option.days
+                    ? 'border-amber-300 bg-amber-50 text-amber-800 font-medium'
+                    : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <div className="flex items-center gap-2 text-slate-600">
+            <Trash2 size={20} />
+            <h2 className="font-semibold text-lg">강의별 오디오</h2>
+          </div>
+          {!sizes ? (
+            <div className="flex justify-center py-8 text-slate-400">
+              <Loader2 size={24} className="animate-spin" />
+            </div>
+          ) : withAudio.length === 0 ? (
+            <p className="text-sm text-slate-400 py-8 text-center">저장된 오디오가 없습니다.</p>
+          ) : (
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+              {withAudio.map(rec => (
+                <div key={rec.id} className="flex items-center gap-3 p-3">
+                  <button onClick={() => onOpenRecording(rec.id)} className="flex-1 min-w-0 text-left group">
+                    <span className="block font-medium text-slate-800 truncate group-hover:text-indigo-700">{rec.title}</span>
+                    <span className="block text-xs text-slate-500">{rec.subject} · {formatDate(rec.date)}</span>
+                  </button>
+                  <span className="text-sm font-mono text-slate-600 flex-shrink-0">{formatFileSize(sizes.get(rec.id) || 0)}</span>
+                  <button
+                    onClick={() => handleDiscard(rec)}
+                    disabled={!canDiscardAudio(rec)}
+                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400 rounded-md transition-colors"
+                    title={canDiscardAudio(rec) ? '오디오만 삭제' : '분석이 끝난 강의만 오디오를 삭제할 수 있습니다'}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StorageManager;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { ArrowLeft, RotateCcw, PartyPopper, Layers } from 'lucide-react';
+import { Flashcard } from '../types';
+import { ReviewQuality } from '../utils/sm2';
+
+interface StudyModeProps {
+  title: string;
+  cards: Flashcard[]; // cards due in this session, in review order
+  onReview: (card: Flashcard, quality: ReviewQuality) => void;
+  onClose: () => void;
+}
+
+const GRADES: { quality: ReviewQuality; label: string; className: string }[] = [
+  { quality: 1, label: '다시', className: 'bg-rose-50 text-rose-700 hover:bg-rose-100 border-rose-200' },
+  { quality: 3, label: '어려움', className: 'bg-amber-50 text-amber-700 hover:bg-amber-100 border-amber-200' },
+  { quality: 4, label: '알맞음', className: 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100 border-emerald-200' },
+  { quality: 5, label: '쉬움', className: 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100 border-indigo-200' },
+];
+
+const StudyMode: React.FC<StudyModeProps> = ({ title, cards, onReview, onClose }) => {
+  // Snapshot the session queue so grading a card (which changes `cards`) does not reshuffle it
+  const [queue, setQueue] = useState<Flashcard[]>(cards);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const current = queue[0];
+
+  const handleGrade = (quality: ReviewQuality) => {
+    if (!current) return;
+    onReview(current, quality);
+    setReviewedCount(prev => prev + 1);
+    setIsFlipped(false);
+    // Failed cards come back at the end of this session
+    setQueue(prev => quality < 3 ? [...prev.slice(1), current] : prev.slice(1));
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-hidden">
+      <div className="border-b border-slate-200 p-4 flex items-center gap-4 bg-white">
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-xl font-bold text-slate-900 leading-tight">{title}</h1>
+          <p className="text-sm text-slate-500 mt-1">
+            남은 카드 {queue.length}장 · 복습 {reviewedCount}회
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 flex flex-col items-center justify-center">
+        {!current ? (
+          <div className="text-center space-y-4">
+            <div className="w-20 h-20 mx-auto bg-emerald-100 text-emerald-600 rounded-full flex items-center justify-center">
+              <PartyPopper size={36} />
+            </div>
+            <h3 className="text-xl font-bold text-slate-800">오늘 복습할 카드를 모두 마쳤습니다</h3>
+            <p className="text-slate-500">다음 복습 일정에 맞춰 다시 알려드릴게요.</p>
+            <button
+              onClick={onClose}
+              className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-medium shadow-md transition-all active:scale-95"
+            >
+              돌아가기
+            </button>
+          </div>
+        ) : (
+          <div className="w-full max-w-xl space-y-6">
+            <button
+              onClick={() => setIsFlipped(prev => !prev)}
+              className="w-full min-h-[16rem] bg-white border border-slate-200 rounded-2xl shadow-lg p-8 flex flex-col items-center justify-center text-center gap-4 hover:shadow-xl transition-shadow"
+            >
+              <span className={`text-xs font-semibold uppercase tracking-wider px-2 py-0.5 rounded ${
+                current.kind === 'term' ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'
+              }`}>
+                {current.kind === 'term' ? '주요 용어' : '시험 문제'}
+              </span>
+              <p className="text-xl font-semibold text-slate-800 leading-relaxed">{current.front}</p>
+              {isFlipped ? (
+                <p className="text-slate-600 leading-relaxed border-t border-slate-100 pt-4 w-full">{current.back}</p>
+              ) : (
+                <span className="text-sm text-slate-400 flex items-center gap-1">
+                  <RotateCcw size={14} />
+                  눌러서 답 확인
+                </span>
+              )}
+            </button>
+
+            {isFlipped ? (
+              <div className="grid grid-cols-4 gap-2">
+                {GRADES.map(grade => (
+                  <button
+                    key={grade.quality}
+                    onClick={() => handleGrade(grade.quality)}
+                    className={`py-3 rounded-xl border font-medium text-sm transition-colors ${grade.className}`}
+                  >
+                    {grade.label}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-sm text-slate-400 flex items-center justify-center gap-1">
+                <Layers size={14} />
+                답을 떠올린 뒤 카드를 뒤집어 보세요
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudyMode;
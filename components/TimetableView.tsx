@@ -0,0 +1,186 @@
+import React, { useRef } from 'react';
+import { ArrowLeft, CalendarDays, Plus, Trash2, Upload } from 'lucide-react';
+import { AppSettings, ClassSlot } from '../types';
+import { parseIcsEvents } from '../utils/icsUtils';
+import { describeScheduledClass, slotsFromIcsEvents, sortSlots, WEEKDAY_LABELS } from '../services/timetableService';
+
+type TimetableSettings = Pick<AppSettings, 'timetable' | 'semesterStart'>;
+
+interface TimetableViewProps {
+  timetable: ClassSlot[];
+  semesterStart: string | null;
+  subjects: string[]; // existing folders, suggested for the subject field
+  onChange: (changes: Partial<TimetableSettings>) => void;
+  onClose: () => void;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const inputClassName = "px-3 py-1.5 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+// Monday to Saturday; Sunday classes are rare enough to list last
+const WEEKDAY_OPTIONS = [1, 2, 3, 4, 5, 6, 0];
+
+const TimetableView: React.FC<TimetableViewProps> = ({ timetable, semesterStart, subjects, onChange, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateSlot = (id: string, changes: Partial<ClassSlot>) => {
+    onChange({ timetable: timetable.map(slot => slot.id === id ? { ...slot, ...changes } : slot) });
+  };
+
+  const addSlot = () => {
+    const last = timetable[timetable.length - 1];
+    onChange({
+      timetable: [...timetable, {
+        id: generateId(),
+        subject: last?.subject || '',
+        weekday: last?.weekday ?? 1,
+        start: '09:00',
+        end: '10:15',
+      }],
+    });
+  };
+
+  const removeSlot = (id: string) => {
+    onChange({ timetable: timetable.filter(slot => slot.id !== id) });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow importing the same file again
+    if (!file) return;
+
+    try {
+      const imported = slotsFromIcsEvents(parseIcsEvents(await file.text()), generateId);
+      if (imported.slots.length === 0) {
+        window.alert('캘린더 파일에서 수업 일정을 찾지 못했습니다.');
+        return;
+      }
+      if (timetable.length > 0 && !window.confirm(`수업 ${imported.slots.length}개를 가져옵니다. 지금 시간표를 바꾸시겠습니까?`)) return;
+      onChange({
+        timetable: imported.slots,
+        semesterStart: semesterStart || imported.semesterStart,
+      });
+    } catch (error) {
+      console.error("Failed to import calendar:", error);
+      window.alert('캘린더 파일을 읽지 못했습니다.');
+    }
+  };
+
+  const current = describeScheduledClass(timetable, semesterStart, new Date());
+
+  return (
+    <div className="flex flex-col h-full bg-white overflow-hidden">
+      <div className="border-b border-slate-200 p-4 flex items-center gap-4 bg-white">
+        <button
+          onClick={onClose}
+          className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-600"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-xl font-bold text-slate-900 leading-tight">시간표</h1>
+          <p className="text-sm text-slate-500 mt-1">
+            수업 시간에 시작한 녹음은 과목 폴더와 "운영체제 7주차 2차시" 같은 제목이 자동으로 붙습니다.
+          </p>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 hover:bg-slate-200 rounded-lg text-sm font-medium transition-colors"
+          title="캘린더(.ics) 파일에서 가져오기"
+        >
+          <Upload size={18} />
+          <span className="hidden sm:inline">.ics 가져오기</span>
+        </button>
+        <input ref={fileInputRef} type="file" accept=".ics,text/calendar" onChange={handleImport} className="hidden" />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+        <section className="space-y-3">
+          <div className="flex items-center gap-2 text-indigo-600">
+            <CalendarDays size={20} />
+            <h2 className="font-semibold text-lg">학기 시작일</h2>
+          </div>
+          <p className="text-sm text-slate-500">이 날이 속한 주가 1주차가 됩니다. 비워두면 제목에 주차 대신 날짜를 씁니다.</p>
+          <input
+            type="date"
+            value={semesterStart || ''}
+            onChange={(e) => onChange({ semesterStart: e.target.value || null })}
+            className={inputClassName}
+          />
+          {current && (
+            <p className="text-sm text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-lg px-3 py-2">
+              지금 녹음을 시작하면 <span className="font-medium">{current.subject}</span> 폴더에 '{current.title}'(으)로 저장됩니다.
+            </p>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold text-lg text-slate-800">수업</h2>
+            <button
+              onClick={addSlot}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg font-medium transition-colors"
+            >
+              <Plus size={16} />
+              수업 추가
+            </button>
+          </div>
+
+          {timetable.length === 0 ? (
+            <p className="text-sm text-slate-400 py-8 text-center">
+              등록된 수업이 없습니다. 수업을 추가하거나 학교 포털에서 받은 캘린더 파일을 가져오세요.
+            </p>
+          ) : (
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+              {sortSlots(timetable).map(slot => (
+                <div key={slot.id} className="flex flex-wrap items-center gap-2 p-3">
+                  <input
+                    type="text"
+                    value={slot.subject}
+                    onChange={(e) => updateSlot(slot.id, { subject: e.target.value })}
+                    list="timetable-subjects"
+                    placeholder="과목명"
+                    className={`${inputClassName} flex-1 min-w-[10rem]`}
+                  />
+                  <select
+                    value={slot.weekday}
+                    onChange={(e) => updateSlot(slot.id, { weekday: Number(e.target.value) })}
+                    className={inputClassName}
+                  >
+                    {WEEKDAY_OPTIONS.map(day => <option key={day} value={day}>{WEEKDAY_LABELS[day]}요일</option>)}
+                  </select>
+                  <input
+                    type="time"
+                    value={slot.start}
+                    onChange={(e) => e.target.value && updateSlot(slot.id, { start: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <span className="text-slate-400">–</span>
+                  <input
+                    type="time"
+                    value={slot.end}
+                    onChange={(e) => e.target.value && updateSlot(slot.id, { end: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <button
+                    onClick={() => removeSlot(slot.id)}
+                    className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-md transition-colors"
+                    title="수업 삭제"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <datalist id="timetable-subjects">
+            {subjects.map(subject => <option key={subject} value={subject} />)}
+          </datalist>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default TimetableView;
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptSegment } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { findActiveSegment, getSpeakerName } from '../utils/transcriptUtils';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  currentTime: number;
+  isPlaying: boolean;
+  flashIndex?: number | null;
+  speakerNames?: Record<string, string>;
+  onSeek: (time: number) => void;
+}
+
+const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, currentTime, isPlaying, flashIndex, speakerNames, onSeek }) => {
+  const activeIndex = findActiveSegment(segments, currentTime);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the highlighted segment in view while the audio is playing
+  useEffect(() => {
+    if (isPlaying && activeRef.current) {
+      activeRef.current.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [activeIndex, isPlaying]);
+
+  if (segments.length === 0) {
+    return (
+      <div className="bg-slate-50 p-5 rounded-xl text-slate-400 text-sm">
+        스크립트가 없습니다.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-50 p-3 rounded-xl text-sm leading-7 font-sans space-y-1">
+      {segments.map((seg, idx) => (
+        <React.Fragment key={idx}>
+          {/* Label each speaker turn, not every segment */}
+          {seg.speaker && seg.speaker !== segments[idx - 1]?.speaker && (
+            <p className={`px-2 pt-2 text-xs font-semibold ${seg.speaker === 'professor' ? 'text-indigo-600' : 'text-amber-600'}`}>
+              {getSpeakerName(seg.speaker, speakerNames)}
+            </p>
+          )}
+          <button
+            ref={idx === activeIndex ? activeRef : undefined}
+            data-focus={`transcript-${idx}`}
+            onClick={() => onSeek(seg.start)}
+            className={`w-full text-left flex gap-3 px-2 py-1 rounded-lg transition-colors ${
+              idx === activeIndex
+                ? 'bg-indigo-100 text-indigo-900'
+                : 'text-slate-600 hover:bg-slate-100'
+            } ${idx === flashIndex ? 'ring-2 ring-amber-300' : ''}`}
+            title="이 부분부터 재생"
+          >
+            <span className="flex-shrink-0 font-mono text-xs text-slate-400 pt-1.5">
+              {formatTime(Math.floor(seg.start))}
+            </span>
+            <span className="whitespace-pre-wrap">{seg.text}</span>
+          </button>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptView;
@@ -1,21 +1,172 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
+import { appendSessionChunk, deleteRecordingSession, saveRecordingSession } from '../services/storageService';
+import { LectureMarker, RecordingSession, SilenceRange } from '../types';
+import { isSilentLevel, measureLevel, MIN_SILENCE_SECONDS } from '../utils/silenceUtils';
+
+// Chunks are flushed to IndexedDB at this interval so a crash loses at most a few seconds
+const TIMESLICE_MS = 5000;
+const MIME_TYPE = 'audio/webm';
+// The microphone level is sampled at this interval for voice activity detection
+const VAD_INTERVAL_MS = 100;
+// Consecutive loud samples needed to count as speech, so a single cough or door does not end a silence
+const VOICE_CONFIRM_SAMPLES = 3;
 
 interface UseAudioRecorderProps {
-  onRecordingComplete: (blob: Blob, duration: number) => void;
+  // May return a promise; the crash-recovery copy is discarded only after it settles
+  onRecordingComplete: (blob: Blob, duration: number, startedAt: Date, markers: LectureMarker[], silences: SilenceRange[]) => void | Promise<void>;
+  autoPauseOnSilence?: boolean;
 }
 
-export const useAudioRecorder = ({ onRecordingComplete }: UseAudioRecorderProps) => {
+export const useAudioRecorder = ({ onRecordingComplete, autoPauseOnSilence = false }: UseAudioRecorderProps) => {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [duration, setDuration] = useState(0);
   const [permissionError, setPermissionError] = useState<string | null>(null);
-  
+  const [markers, setMarkers] = useState<LectureMarker[]>([]);
+  const [isAutoPaused, setIsAutoPaused] = useState(false);
+
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const sessionRef = useRef<RecordingSession | null>(null);
+  // Mirrors `markers` so the recorder callbacks never read a stale list
+  const markersRef = useRef<LectureMarker[]>([]);
   const timerRef = useRef<number | null>(null);
+  const vadTimerRef = useRef<number | null>(null);
+  // Voice activity state, all in active seconds of the recording
+  const silencesRef = useRef<SilenceRange[]>([]);
+  const silenceSinceRef = useRef<number | null>(null);
+  const voiceSamplesRef = useRef(0);
+  const autoPausedRef = useRef(false);
+  // Read by the VAD loop, which outlives the render that started it
+  const autoPauseOnSilenceRef = useRef(autoPauseOnSilence);
+  autoPauseOnSilenceRef.current = autoPauseOnSilence;
+  // Serializes IndexedDB writes so chunks are stored in order
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Active (non-paused) time is tracked with timestamps instead of counting
+  // timer ticks, so pausing mid-second does not drift and onstop can read it
+  // without depending on a stale `duration` from its closure.
+  const accumulatedMsRef = useRef(0);
+  const activeSinceRef = useRef<number | null>(null);
+
+  const getActiveTime = () => {
+    const running = activeSinceRef.current !== null ? Date.now() - activeSinceRef.current : 0;
+    return (accumulatedMsRef.current + running) / 1000;
+  };
+
+  const getActiveSeconds = () => Math.floor(getActiveTime());
+
+  const startTimer = () => {
+    // Clear any existing timer just in case
+    if (timerRef.current) clearInterval(timerRef.current);
+
+    activeSinceRef.current = Date.now();
+    timerRef.current = window.setInterval(() => {
+      setDuration(getActiveSeconds());
+    }, 250);
+  };
+
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (activeSinceRef.current !== null) {
+      accumulatedMsRef.current += Date.now() - activeSinceRef.current;
+      activeSinceRef.current = null;
+    }
+    setDuration(getActiveSeconds());
+  };
+
+  const enqueueWrite = (write: () => Promise<void>) => {
+    writeQueueRef.current = writeQueueRef.current
+      .then(write)
+      .catch(e => console.error("Failed to persist recording chunk:", e));
+  };
+
+  // Markers and silences are written with the session so they survive a crash along with the audio
+  const persistSession = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const snapshot = { ...session, duration: getActiveSeconds(), markers: markersRef.current, silences: silencesRef.current };
+    enqueueWrite(() => saveRecordingSession(snapshot));
+  };
+
+  const applyMarkers = (next: LectureMarker[]) => {
+    markersRef.current = next;
+    setMarkers(next);
+    persistSession();
+  };
+
+  // Ends the current silent stretch at `end` and keeps it if it was long enough
+  const closeSilence = (end: number) => {
+    const start = silenceSinceRef.current;
+    silenceSinceRef.current = null;
+    if (start === null || end - start < MIN_SILENCE_SECONDS) return;
+    silencesRef.current = [...silencesRef.current, { start: Math.round(start * 10) / 10, end: Math.round(end * 10) / 10 }];
+    persistSession();
+  };
+
+  const startVoiceDetection = (analyser: AnalyserNode) => {
+    const buffer = new Float32Array(analyser.fftSize);
+    silencesRef.current = [];
+    silenceSinceRef.current = null;
+    voiceSamplesRef.current = 0;
+    autoPausedRef.current = false;
+    setIsAutoPaused(false);
+
+    vadTimerRef.current = window.setInterval(() => {
+      const recorder = mediaRecorderRef.current;
+      if (!recorder || recorder.state === 'inactive') return;
+      // While paused by hand nothing is recorded, so there is nothing to map
+      if (recorder.state === 'paused' && !autoPausedRef.current) return;
+
+      if (isSilentLevel(measureLevel(analyser, buffer))) {
+        voiceSamplesRef.current = 0;
+        if (silenceSinceRef.current === null) {
+          silenceSinceRef.current = getActiveTime();
+        } else if (
+          autoPauseOnSilenceRef.current &&
+          recorder.state === 'recording' &&
+          getActiveTime() - silenceSinceRef.current >= MIN_SILENCE_SECONDS
+        ) {
+          recorder.pause();
+          stopTimer();
+          autoPausedRef.current = true;
+          setIsPaused(true);
+          setIsAutoPaused(true);
+        }
+        return;
+      }
+
+      voiceSamplesRef.current += 1;
+      if (voiceSamplesRef.current < VOICE_CONFIRM_SAMPLES) return;
+
+      if (autoPausedRef.current) {
+        // The clock stood still while paused, so the silence ends where recording stopped
+        closeSilence(getActiveTime());
+        autoPausedRef.current = false;
+        recorder.resume();
+        startTimer();
+        setIsPaused(false);
+        setIsAutoPaused(false);
+      } else if (silenceSinceRef.current !== null) {
+        // Speech began at the first of the confirming samples
+        closeSilence(getActiveTime() - (VOICE_CONFIRM_SAMPLES * VAD_INTERVAL_MS) / 1000);
+      }
+    }, VAD_INTERVAL_MS);
+  };
+
+  const stopVoiceDetection = () => {
+    if (vadTimerRef.current) {
+      clearInterval(vadTimerRef.current);
+      vadTimerRef.current = null;
+    }
+  };
 
   const startRecording = async () => {
     try {
@@ -28,41 +179,60 @@ export const useAudioRecorder = ({ onRecordingComplete }: UseAudioRecorderProps)
       const source = audioCtx.createMediaStreamSource(stream);
       source.connect(analyser);
       analyser.fftSize = 256;
-      
+
       audioContextRef.current = audioCtx;
       analyserRef.current = analyser;
       sourceRef.current = source;
 
       // Media Recorder
-      const mediaRecorder = new MediaRecorder(stream, { mimeType: 'audio/webm' });
+      const mediaRecorder = new MediaRecorder(stream, { mimeType: MIME_TYPE });
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
 
+      const session: RecordingSession = {
+        id: `session-${Date.now().toString(36)}`,
+        startedAt: new Date(),
+        duration: 0,
+        mimeType: MIME_TYPE,
+      };
+      sessionRef.current = session;
+      markersRef.current = [];
+      setMarkers([]);
+      enqueueWrite(() => saveRecordingSession(session));
+
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
+          const seq = chunksRef.current.length;
           chunksRef.current.push(e.data);
+          const duration = getActiveSeconds();
+          enqueueWrite(async () => {
+            await appendSessionChunk(session.id, seq, e.data);
+            await saveRecordingSession({ ...session, duration, markers: markersRef.current, silences: silencesRef.current });
+          });
         }
       };
 
       mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        // Capture duration before resetting
-        const finalDuration = duration;
-        onRecordingComplete(blob, finalDuration);
+        const blob = new Blob(chunksRef.current, { type: MIME_TYPE });
+        sessionRef.current = null;
+        Promise.resolve(onRecordingComplete(blob, getActiveSeconds(), session.startedAt, markersRef.current, silencesRef.current))
+          .then(() => writeQueueRef.current)
+          .then(() => deleteRecordingSession(session.id))
+          .catch(e => console.error("Failed to discard recording session:", e));
         cleanupAudio();
       };
 
-      mediaRecorder.start();
+      accumulatedMsRef.current = 0;
+      activeSinceRef.current = null;
+
+      mediaRecorder.start(TIMESLICE_MS);
       setIsRecording(true);
+      setIsPaused(false);
       setDuration(0);
       setPermissionError(null);
 
-      // Clear any existing timer just in case
-      if (timerRef.current) clearInterval(timerRef.current);
-      
-      timerRef.current = window.setInterval(() => {
-        setDuration(prev => prev + 1);
-      }, 1000);
+      startTimer();
+      startVoiceDetection(analyser);
 
     } catch (err) {
       console.error("Error accessing microphone:", err);
@@ -72,20 +242,60 @@ export const useAudioRecorder = ({ onRecordingComplete }: UseAudioRecorderProps)
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      // Freeze the active time before onstop reads it
+      stopTimer();
+      stopVoiceDetection();
+      closeSilence(getActiveTime());
+      autoPausedRef.current = false;
       mediaRecorderRef.current.stop();
       setIsRecording(false);
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
+      setIsPaused(false);
+      setIsAutoPaused(false);
+    }
+  }, []);
+
+  const pauseRecording = useCallback(() => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+      mediaRecorderRef.current.pause();
+      stopTimer();
+      closeSilence(getActiveTime());
+      setIsPaused(true);
+    }
+  }, []);
+
+  const resumeRecording = useCallback(() => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'paused') {
+      if (autoPausedRef.current) {
+        closeSilence(getActiveTime());
+        autoPausedRef.current = false;
+        setIsAutoPaused(false);
       }
+      mediaRecorderRef.current.resume();
+      startTimer();
+      setIsPaused(false);
     }
-  }, [duration]); // duration dependency isn't strictly needed for stop, but good for closure safety if we used it
+  }, []);
+
+  const addMarker = useCallback((label = '') => {
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') return;
+    applyMarkers([...markersRef.current, { time: getActiveSeconds(), label }]);
+  }, []);
+
+  const updateMarker = useCallback((index: number, label: string) => {
+    applyMarkers(markersRef.current.map((marker, i) => i === index ? { ...marker, label } : marker));
+  }, []);
+
+  const removeMarker = useCallback((index: number) => {
+    applyMarkers(markersRef.current.filter((_, i) => i !== index));
+  }, []);
 
   const cleanupAudio = () => {
+    stopVoiceDetection();
+
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
     }
-    
+
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
       audioContextRef.current.close().catch(e => console.error("Error closing AudioContext:", e));
     }
@@ -106,10 +316,18 @@ export const useAudioRecorder = ({ onRecordingComplete }: UseAudioRecorderProps)
 
   return {
     isRecording,
+    isPaused,
+    isAutoPaused,
     duration,
     permissionError,
+    markers,
     analyser: analyserRef.current,
     startRecording,
-    stopRecording
+    stopRecording,
+    pauseRecording,
+    resumeRecording,
+    addMarker,
+    updateMarker,
+    removeMarker
   };
 };
\ No newline at end of file
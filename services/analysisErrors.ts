@@ -0,0 +1,90 @@
+import { AnalysisErrorKind } from '../types';
+
+// Thrown by providers and analysisService when the cause of a failure is known.
+// Anything else (SDK errors, fetch failures) is classified by `classifyAnalysisError`.
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+
+  constructor(kind: AnalysisErrorKind, message: string) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+  }
+}
+
+interface AnalysisErrorInfo {
+  label: string; // short, shown in the sidebar
+  guidance: string; // what the student can do about it
+  retryable: boolean; // trying again later can succeed without changing anything
+}
+
+export const ANALYSIS_ERRORS: Record<AnalysisErrorKind, AnalysisErrorInfo> = {
+  quota: {
+    label: 'AI 사용량 한도 초과',
+    guidance: '요청이 너무 많거나 API 사용량 한도에 도달했습니다. 잠시 후 다시 시도하거나, 설정에서 동시 분석 개수를 줄여보세요.',
+    retryable: true,
+  },
+  auth: {
+    label: 'API 키 또는 서버 설정 오류',
+    guidance: 'API 키가 없거나 거부되었습니다. 설정에서 분석 엔진, API 키와 서버 주소를 확인한 뒤 다시 시도하세요.',
+    retryable: false,
+  },
+  network: {
+    label: '네트워크 오류',
+    guidance: '분석 서버에 연결하지 못했거나 서버가 일시적으로 응답하지 않습니다. 인터넷 연결을 확인하고 다시 시도하세요.',
+    retryable: true,
+  },
+  'unsupported-audio': {
+    label: '지원하지 않는 오디오',
+    guidance: '분석 엔진이 이 오디오를 읽지 못했습니다. 파일이 너무 크거나 형식이 맞지 않을 수 있습니다. 설정에서 저장 음질을 바꾸거나 다른 형식으로 변환해 다시 가져오세요.',
+    retryable: false,
+  },
+  safety: {
+    label: 'AI가 응답을 거부함',
+    guidance: 'AI의 안전 정책에 따라 이 녹음의 분석이 차단되었습니다. 다시 시도해도 같은 결과가 나올 가능성이 높습니다.',
+    retryable: false,
+  },
+  'invalid-output': {
+    label: 'AI 응답 형식 오류',
+    guidance: 'AI가 노트로 읽을 수 없는 응답을 보냈습니다. 같은 녹음도 다시 분석하면 대개 성공합니다.',
+    retryable: true,
+  },
+  'invalid-input': {
+    label: '오디오 파일 없음',
+    guidance: '이 녹음의 오디오 파일을 기기에서 찾지 못했습니다. 브라우저 저장소가 정리되었을 수 있습니다. 원본 파일이 있다면 다시 가져와 분석하세요.',
+    retryable: false,
+  },
+  unknown: {
+    label: 'AI 분석 중 오류 발생',
+    guidance: '알 수 없는 오류로 분석에 실패했습니다. 오디오 파일은 안전하게 저장되어 있으니 다시 시도해주세요.',
+    retryable: true,
+  },
+};
+
+export const classifyHttpStatus = (status: number): AnalysisErrorKind => {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 413 || status === 415) return 'unsupported-audio';
+  if (status === 408 || status >= 500) return 'network';
+  return 'unknown';
+};
+
+// Works on our own errors, the Gemini SDK's ApiError (which has `status`) and
+// fetch failures. Messages are checked too, since some SDK errors only carry
+// the upstream status text ("RESOURCE_EXHAUSTED", "Unsupported MIME type").
+export const classifyAnalysisError = (error: unknown): AnalysisErrorKind => {
+  if (error instanceof AnalysisError) return error.kind;
+
+  const status = (error as { status?: unknown } | null)?.status;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return 'quota';
+  if (/API key|UNAUTHENTICATED|PERMISSION_DENIED/i.test(message)) return 'auth';
+  if (/mime type|unsupported (audio|file|format)|audio (format|decod)/i.test(message)) return 'unsupported-audio';
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST/.test(message)) return 'safety';
+  if (typeof status === 'number') return classifyHttpStatus(status);
+  if (error instanceof SyntaxError) return 'invalid-output';
+  // fetch() rejects with a TypeError when the network is unreachable
+  if (error instanceof TypeError || /UNAVAILABLE|overloaded|timed? ?out|network|failed to fetch/i.test(message)) return 'network';
+  return 'unknown';
+};
@@ -0,0 +1,21 @@
+import { AnalysisProviderId } from '../types';
+import { JsonSchema } from '../utils/modelOutput';
+
+// JSON Schema describing the expected response
+export type ResponseSchema = JsonSchema;
+
+export interface GenerateRequest {
+  systemInstruction: string;
+  prompt: string;
+  schema: ResponseSchema;
+  audio?: Blob;
+  signal?: AbortSignal; // aborts the request when the analysis is cancelled
+}
+
+// A provider is only a transport: it sends one request (optionally with audio)
+// and returns the raw JSON text. Prompts, chunking and parsing live in
+// analysisService so every backend behaves the same.
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  generate: (request: GenerateRequest) => Promise<string>;
+}
@@ -0,0 +1,148 @@
+import { AnalysisJob } from '../types';
+import { analysisJobRepository } from './storageService';
+import { classifyAnalysisError } from './analysisErrors';
+
+// A job is given up after this many attempts, counting the first
+export const MAX_ANALYSIS_ATTEMPTS = 4;
+// Backoff after a transient failure doubles from here: 10s, 20s, 40s
+const BASE_RETRY_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Rate limits, server overload and dropped connections are worth retrying on
+// their own; anything else needs the student to change something first
+export const isTransientError = (error: unknown): boolean => {
+  const kind = classifyAnalysisError(error);
+  return kind === 'quota' || kind === 'network';
+};
+
+// 1-based position among the jobs waiting to start, or null if the job is running or unknown
+export const getQueuePosition = (jobs: AnalysisJob[], recordingId: string): number | null => {
+  const waiting = jobs.filter(job => job.state === 'waiting');
+  const index = waiting.findIndex(job => job.recordingId === recordingId);
+  return index === -1 ? null : index + 1;
+};
+
+export interface AnalysisQueueOptions {
+  concurrency: number;
+  // Analyzes one recording; rejecting marks the attempt as failed
+  run: (recordingId: string, signal: AbortSignal) => Promise<void>;
+  // Called once a job has failed for good
+  onFailed: (recordingId: string, error: unknown) => void;
+  onChange: (jobs: AnalysisJob[]) => void;
+}
+
+export interface AnalysisQueue {
+  // Adds a job unless the recording is already queued. A job saved before a
+  // reload can be passed in to keep its place and attempt count.
+  enqueue: (recordingId: string, saved?: AnalysisJob) => void;
+  cancel: (recordingId: string) => void;
+  setConcurrency: (concurrency: number) => void;
+}
+
+// Runs analyses first-in first-out, at most `concurrency` at a time. Every
+// change to a job is written to IndexedDB so the queue can be rebuilt after a reload.
+export const createAnalysisQueue = (options: AnalysisQueueOptions): AnalysisQueue => {
+  let jobs: AnalysisJob[] = [];
+  let concurrency = Math.max(1, options.concurrency);
+  const controllers = new Map<string, AbortController>();
+  let wakeTimer: number | null = null;
+
+  const publish = () => options.onChange(jobs);
+
+  const updateJob = (recordingId: string, changes: Partial<AnalysisJob>) => {
+    jobs = jobs.map(job => job.recordingId === recordingId ? { ...job, ...changes } : job);
+    const job = jobs.find(j => j.recordingId === recordingId);
+    if (job) analysisJobRepository.save(job).catch(error => console.error("Failed to save analysis job:", error));
+    publish();
+  };
+
+  const removeJob = (recordingId: string) => {
+    jobs = jobs.filter(job => job.recordingId !== recordingId);
+    analysisJobRepository.remove(recordingId).catch(error => console.error("Failed to remove analysis job:", error));
+    publish();
+  };
+
+  const start = (job: AnalysisJob) => {
+    const { recordingId } = job;
+    const controller = new AbortController();
+    controllers.set(recordingId, controller);
+    const attempts = job.attempts + 1;
+    updateJob(recordingId, { state: 'running', attempts, nextAttemptAt: undefined });
+
+    // A cancelled job has already been removed; its late result is ignored
+    const isCurrent = () => controllers.get(recordingId) === controller;
+
+    options.run(recordingId, controller.signal)
+      .then(() => {
+        if (isCurrent()) removeJob(recordingId);
+      })
+      .catch(error => {
+        if (!isCurrent()) return;
+        if (isTransientError(error) && attempts < MAX_ANALYSIS_ATTEMPTS) {
+          const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempts - 1));
+          updateJob(recordingId, {
+            state: 'waiting',
+            nextAttemptAt: new Date(Date.now() + delay),
+            lastError: error instanceof Error ? error.message : String(error),
+          });
+        } else {
+          removeJob(recordingId);
+          options.onFailed(recordingId, error);
+        }
+      })
+      .finally(() => {
+        if (isCurrent()) controllers.delete(recordingId);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (wakeTimer !== null) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+    }
+
+    const now = Date.now();
+    let running = jobs.filter(job => job.state === 'running').length;
+    jobs.forEach(job => {
+      if (running >= concurrency || job.state !== 'waiting') return;
+      if (job.nextAttemptAt && job.nextAttemptAt.getTime() > now) return;
+      start(job);
+      running++;
+    });
+
+    // Wake up when the earliest backed-off job is due
+    const due = jobs
+      .filter(job => job.state === 'waiting' && job.nextAttemptAt)
+      .map(job => job.nextAttemptAt!.getTime());
+    if (due.length > 0) {
+      wakeTimer = window.setTimeout(pump, Math.max(0, Math.min(...due) - now));
+    }
+  };
+
+  return {
+    enqueue: (recordingId, saved) => {
+      if (jobs.some(job => job.recordingId === recordingId)) return;
+      const job: AnalysisJob = saved
+        ? { ...saved, state: 'waiting' }
+        : { recordingId, enqueuedAt: new Date(), state: 'waiting', attempts: 0 };
+      jobs = [...jobs, job].sort((a, b) => a.enqueuedAt.getTime() - b.enqueuedAt.getTime());
+      analysisJobRepository.save(job).catch(error => console.error("Failed to save analysis job:", error));
+      publish();
+      pump();
+    },
+
+    cancel: (recordingId) => {
+      const controller = controllers.get(recordingId);
+      controllers.delete(recordingId);
+      controller?.abort();
+      if (jobs.some(job => job.recordingId === recordingId)) removeJob(recordingId);
+      pump();
+    },
+
+    setConcurrency: (next) => {
+      concurrency = Math.max(1, next);
+      pump();
+    },
+  };
+};
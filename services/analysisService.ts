@@ -0,0 +1,567 @@
+import { decodeAudioToMono, encodeWav, formatTime } from '../utils/audioUtils';
+import { AnalysisPreferences, AnalysisProgress, ClassQuestion, ExamQuestion, LectureMarker, NoteData, NoteSection, OutputLanguage, SilenceRange, SummaryStyle } from '../types';
+import { mergeTranscriptChunks, TranscriptChunk } from '../utils/transcriptUtils';
+import { findFirstMention, normalizeNoteData, normalizeTermKey } from '../utils/noteUtils';
+import { audibleRanges, toAudibleTime, toOriginalTime } from '../utils/silenceUtils';
+import { conformToSchema, parseModelJson } from '../utils/modelOutput';
+import { AnalysisProvider, ResponseSchema } from './analysisProvider';
+import { AnalysisError } from './analysisErrors';
+
+// Recordings longer than this are split into windows and analyzed separately.
+// Each window is re-encoded as 16kHz mono WAV (~1.9MB/min), so 6 minutes stays
+// well under the inline request size limit.
+const CHUNK_THRESHOLD_SECONDS = 12 * 60;
+const CHUNK_LENGTH_SECONDS = 6 * 60;
+const CHUNK_OVERLAP_SECONDS = 20;
+// Two windows place the same moment in the overlap within a few seconds of each other
+const OVERLAP_MATCH_SECONDS = 5;
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+export const DEFAULT_ANALYSIS_PREFERENCES: AnalysisPreferences = {
+  language: 'ko',
+  examQuestionCount: 3,
+  summaryStyle: 'concise',
+  customInstructions: '',
+};
+
+const LANGUAGE_NAMES: Record<OutputLanguage, string> = {
+  ko: 'Korean (한국어)',
+  en: 'English',
+  lecture: 'the language the lecture is taught in',
+};
+
+const SUMMARY_STYLES: Record<SummaryStyle, string> = {
+  concise: 'Summarize the main points concisely',
+  detailed: 'Write a detailed summary that follows the structure of the lecture, covering every topic, example and argument',
+  bullets: 'Summarize the main points as a bulleted list (one "- " line per point)',
+};
+
+export const describeLanguage = (language: OutputLanguage): string => LANGUAGE_NAMES[language];
+
+const withCustomInstructions = (instruction: string, preferences: AnalysisPreferences): string => {
+  const custom = preferences.customInstructions.trim();
+  return custom ? `${instruction}\nAdditional instructions from the student:\n${custom}\n` : instruction;
+};
+
+// System instruction to guide the model's persona
+const buildSystemInstruction = (preferences: AnalysisPreferences): string => {
+  const language = LANGUAGE_NAMES[preferences.language];
+  return withCustomInstructions(`
+You are an expert academic assistant designed to help students.
+Your task is to process audio recordings of university lectures.
+
+1. Transcribe the audio accurately in the language it is spoken, split into short segments (one or two sentences each) with start and end times in seconds from the beginning of the recording.
+2. Label every segment with its speaker: "professor" for the lecturer, and "student-1", "student-2", ... for students, numbered in the order they first speak. Start a new segment whenever the speaker changes.
+3. ${SUMMARY_STYLES[preferences.summaryStyle]} in ${language}.
+4. Extract key terminology with definitions in ${language}, and the time in seconds each term is first mentioned.
+5. Suggest ${preferences.examQuestionCount} potential exam questions based on the content in ${language}, each with a model answer and a grading rubric (the key points a complete answer must cover).
+6. List every question a student asked during class, with the answer that was given and the time in seconds the question was asked, in ${language}. Leave the list empty if no student spoke.
+
+Return the output in a strict JSON format.
+`, preferences);
+};
+
+const buildMergeInstruction = (preferences: AnalysisPreferences): string => {
+  const language = LANGUAGE_NAMES[preferences.language];
+  return withCustomInstructions(`
+You are an expert academic assistant designed to help students.
+You receive partial notes that were generated from consecutive parts of one university lecture.
+
+1. Combine the partial summaries into one coherent summary of the whole lecture in ${language}. ${SUMMARY_STYLES[preferences.summaryStyle]}.
+2. Merge the key terms into one list without duplicates in ${language}.
+3. Pick the ${preferences.examQuestionCount} most representative exam questions for the whole lecture in ${language}, keeping their model answers and rubrics.
+
+Return the output in a strict JSON format.
+`, preferences);
+};
+
+const buildGradingInstruction = (language: OutputLanguage): string => `
+You are a fair university teaching assistant grading a student's practice exam.
+Grade each answer only against what was taught in the lecture transcript, using the model answer and rubric as guidance.
+
+1. Give each answer a score from 0 to 100.
+2. Write short, constructive feedback in ${LANGUAGE_NAMES[language]}: what was correct, what was missing or wrong.
+
+Return the output in a strict JSON format.
+`;
+
+const buildExamQuestionSchema = (language: string): ResponseSchema => ({
+  type: 'object',
+  properties: {
+    question: { type: 'string', description: `Exam question in ${language}` },
+    answer: { type: 'string', description: `Model answer in ${language}` },
+    rubric: {
+      type: 'array',
+      items: { type: 'string' },
+      description: `Key points a complete answer must cover, in ${language}`
+    }
+  },
+  required: ["question", "answer", "rubric"]
+});
+
+const buildNoteSchema = (preferences: AnalysisPreferences): ResponseSchema => {
+  const language = LANGUAGE_NAMES[preferences.language];
+  return {
+    type: 'object',
+    properties: {
+      transcript: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            start: { type: 'number', description: "Segment start time in seconds" },
+            end: { type: 'number', description: "Segment end time in seconds" },
+            text: { type: 'string', description: "Transcribed text of the segment" },
+            speaker: { type: 'string', description: "\"professor\" or \"student-N\"" }
+          },
+          required: ["start", "end", "text", "speaker"]
+        },
+        description: "Full transcription of the audio as timestamped segments"
+      },
+      summary: { type: 'string', description: `Summary of the lecture content in ${language}` },
+      keyTerms: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            term: { type: 'string', description: "The term as it is used in the lecture" },
+            definition: { type: 'string', description: `Brief definition in ${language}` },
+            firstMentionTime: { type: 'number', description: "Time in seconds when the term is first mentioned" }
+          },
+          required: ["term", "definition", "firstMentionTime"]
+        },
+        description: `List of important terms and their brief definitions in ${language}`
+      },
+      examQuestions: {
+        type: 'array',
+        items: buildExamQuestionSchema(language),
+        maxItems: preferences.examQuestionCount,
+        description: `${preferences.examQuestionCount} potential exam questions based on the lecture in ${language}, with model answers and rubrics`
+      },
+      classQuestions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            question: { type: 'string', description: `The student's question in ${language}` },
+            answer: { type: 'string', description: `The answer given in class in ${language}` },
+            time: { type: 'number', description: "Time in seconds when the question was asked" }
+          },
+          required: ["question", "answer", "time"]
+        },
+        description: "Questions students asked during the lecture"
+      }
+    },
+    required: ["transcript", "summary", "keyTerms", "examQuestions", "classQuestions"]
+  };
+};
+
+const buildMergeSchema = (preferences: AnalysisPreferences): ResponseSchema => {
+  const language = LANGUAGE_NAMES[preferences.language];
+  return {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: `Coherent summary of the whole lecture in ${language}` },
+      keyTerms: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            term: { type: 'string', description: "The term as it is used in the lecture" },
+            definition: { type: 'string', description: `Brief definition in ${language}` }
+          },
+          required: ["term", "definition"]
+        },
+        description: `Deduplicated list of important terms and their brief definitions in ${language}`
+      },
+      examQuestions: {
+        type: 'array',
+        items: buildExamQuestionSchema(language),
+        maxItems: preferences.examQuestionCount,
+        description: `${preferences.examQuestionCount} potential exam questions covering the whole lecture in ${language}, with model answers and rubrics`
+      }
+    },
+    required: ["summary", "keyTerms", "examQuestions"]
+  };
+};
+
+export interface AnalyzeOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  preferences?: AnalysisPreferences;
+  markers?: LectureMarker[]; // moments the student flagged while recording
+  silences?: SilenceRange[]; // long silent stretches to leave out of the analysis
+  duration?: number; // stored length in seconds; short recordings are then sent without decoding
+  signal?: AbortSignal;
+  // Called when a response was accepted with sections missing or cut off
+  onIncomplete?: (sections: NoteSection[]) => void;
+}
+
+// Parses and validates any model response against the schema it was requested
+// with. Truncated JSON is repaired; the top-level properties it lost are reported
+// as incomplete, along with the last one present, which may have been cut off mid-way.
+export const readModelResponse = (text: string, schema: ResponseSchema): { data: Record<string, unknown>; incomplete: string[] } => {
+  const parsed = parseModelJson(text);
+  const conformed = parsed && conformToSchema(parsed.value, schema);
+  if (!parsed || !conformed) {
+    throw new AnalysisError('invalid-output', "Model response is not a JSON object");
+  }
+
+  const incomplete = new Set(conformed.missing);
+  if (parsed.repaired) {
+    const present = Object.keys(conformed.value);
+    const original = Object.keys(parsed.value as object).filter(key => present.includes(key));
+    if (original.length > 0) incomplete.add(original[original.length - 1]);
+  }
+  return { data: conformed.value, incomplete: [...incomplete] };
+};
+
+// Prompt listing the flagged moments that fall in [start, end), with times relative to `start`
+const describeMarkers = (markers: LectureMarker[] | undefined, start = 0, end = Infinity): string => {
+  const inRange = (markers || []).filter(m => m.time >= start && m.time < end);
+  if (inRange.length === 0) return '';
+  const lines = inRange.map(m => `- ${formatTime(Math.floor(m.time - start))}${m.label ? ` (${m.label})` : ''}`);
+  return `\n\nThe student flagged these moments as important while listening. Give what the lecturer says around them extra weight in the summary and the exam questions:\n${lines.join('\n')}`;
+};
+
+// Prompt telling the model what to return, e.g. "a summary (in English), key terms (in English), ..."
+const describeOutput = (preferences: AnalysisPreferences): string => {
+  const language = preferences.language === 'lecture' ? 'in the lecture\'s language' : `in ${LANGUAGE_NAMES[preferences.language]}`;
+  return `a summary (${language}), key terms (${language}), ${preferences.examQuestionCount} exam questions (${language}), and the questions students asked in class (${language})`;
+};
+
+const analyzeAudioPart = async (
+  provider: AnalysisProvider,
+  audioBlob: Blob,
+  prompt: string,
+  preferences: AnalysisPreferences,
+  options: AnalyzeOptions
+): Promise<NoteData> => {
+  const schema = buildNoteSchema(preferences);
+  const text = await provider.generate({
+    systemInstruction: buildSystemInstruction(preferences),
+    prompt,
+    schema,
+    audio: audioBlob,
+    signal: options.signal,
+  });
+
+  // A response with neither a summary nor a transcript has nothing worth keeping
+  const { data, incomplete } = readModelResponse(text, schema);
+  if (!data.summary && !(data.transcript as unknown[] | undefined)?.length) {
+    throw new AnalysisError('invalid-output', "Analysis response has no summary or transcript");
+  }
+  if (incomplete.length > 0) options.onIncomplete?.(incomplete as NoteSection[]);
+
+  const note = normalizeNoteData(data, 0);
+  return { ...note, examQuestions: note.examQuestions.slice(0, preferences.examQuestionCount) };
+};
+
+type MergedNotes = Pick<NoteData, 'summary' | 'keyTerms' | 'examQuestions'>;
+
+const mergePartialNotes = async (
+  provider: AnalysisProvider,
+  partials: NoteData[],
+  preferences: AnalysisPreferences,
+  markers?: LectureMarker[],
+  signal?: AbortSignal
+): Promise<MergedNotes> => {
+  const partialText = partials.map((part, i) => `
+[Part ${i + 1}]
+Summary: ${part.summary}
+Key terms:
+${part.keyTerms.map(t => `- ${t.term}: ${t.definition}`).join('\n')}
+Exam questions:
+${part.examQuestions.map(q => `- ${q.question}\n  Model answer: ${q.answer}\n  Rubric: ${q.rubric.join('; ')}`).join('\n')}
+`).join('\n');
+
+  const schema = buildMergeSchema(preferences);
+  const text = await provider.generate({
+    systemInstruction: buildMergeInstruction(preferences),
+    prompt: `Merge these partial lecture notes into one set of notes.\n${partialText}${describeMarkers(markers)}`,
+    schema,
+    signal,
+  });
+
+  // An incomplete merge would lose terms or questions; the caller falls back to concatenation
+  const { data, incomplete } = readModelResponse(text, schema);
+  if (incomplete.length > 0) {
+    throw new AnalysisError('invalid-output', `Merged notes are missing ${incomplete.join(', ')}`);
+  }
+
+  const { summary, keyTerms, examQuestions } = normalizeNoteData(data, 0);
+  return { summary, keyTerms, examQuestions: examQuestions.slice(0, preferences.examQuestionCount) };
+};
+
+// Used when the merge request fails, so finished chunk work is not thrown away
+const concatPartialNotes = (partials: NoteData[], examQuestionCount: number): MergedNotes => {
+  const seenTerms = new Set<string>();
+  const keyTerms = partials.flatMap(part => part.keyTerms).filter(({ term }) => {
+    const key = normalizeTermKey(term);
+    if (seenTerms.has(key)) return false;
+    seenTerms.add(key);
+    return true;
+  });
+
+  return {
+    summary: partials.map(part => part.summary).join('\n\n'),
+    keyTerms,
+    examQuestions: partials.flatMap(part => part.examQuestions).slice(0, examQuestionCount),
+  };
+};
+
+const planChunks = (totalSeconds: number): { start: number; end: number }[] => {
+  const chunks: { start: number; end: number }[] = [];
+  const step = CHUNK_LENGTH_SECONDS - CHUNK_OVERLAP_SECONDS;
+  for (let start = 0; start < totalSeconds; start += step) {
+    const end = Math.min(start + CHUNK_LENGTH_SECONDS, totalSeconds);
+    chunks.push({ start, end });
+    if (end >= totalSeconds) break;
+  }
+  return chunks;
+};
+
+// Decoded audio to analyze. `read` returns the samples between two positions,
+// so a long recording is only ever copied one window at a time.
+interface SampleSource {
+  length: number; // in samples
+  sampleRate: number;
+  read: (start: number, end: number) => Float32Array;
+}
+
+const analyzeInChunks = async (
+  provider: AnalysisProvider,
+  source: SampleSource,
+  preferences: AnalysisPreferences,
+  options: AnalyzeOptions
+): Promise<NoteData> => {
+  const { sampleRate } = source;
+  const windows = planChunks(source.length / sampleRate);
+  // One extra step for merging the partial notes
+  const total = windows.length + 1;
+  options.onProgress?.({ completed: 0, total });
+
+  const partials: NoteData[] = [];
+  const transcriptChunks: TranscriptChunk[] = [];
+  const classQuestions: ClassQuestion[] = [];
+  let previousWindowQuestions: ClassQuestion[] = [];
+  // Earliest mention of each term across windows, in seconds from the start of the recording
+  const termTimes = new Map<string, number>();
+
+  for (let i = 0; i < windows.length; i++) {
+    const { start, end } = windows[i];
+    const wav = encodeWav(source.read(Math.floor(start * sampleRate), Math.floor(end * sampleRate)), sampleRate);
+    const part = await analyzeAudioPart(
+      provider,
+      wav,
+      `This is part ${i + 1} of ${windows.length} of a longer lecture recording. Provide a timestamped, speaker-labelled transcript of this part (all times relative to the start of this part), ${describeOutput(preferences)}.${describeMarkers(options.markers, start, end)}`,
+      preferences,
+      options
+    );
+    partials.push(part);
+    transcriptChunks.push({ offset: start, segments: part.transcript });
+    part.keyTerms.forEach(({ term, firstMentionTime }) => {
+      if (firstMentionTime === null) return;
+      const key = normalizeTermKey(term);
+      const time = firstMentionTime + start;
+      if (!termTimes.has(key) || time < termTimes.get(key)!) termTimes.set(key, time);
+    });
+    // A question asked inside the overlap is reported by both windows; keep the
+    // earlier window's. Questions elsewhere are distinct even when close together.
+    const windowQuestions = part.classQuestions.map(q => ({ ...q, time: q.time + start }));
+    windowQuestions.forEach(q => {
+      const isRepeat = q.time < start + CHUNK_OVERLAP_SECONDS && previousWindowQuestions.some(prev =>
+        prev.time >= start - OVERLAP_MATCH_SECONDS && (
+          normalizeTermKey(prev.question) === normalizeTermKey(q.question) ||
+          Math.abs(prev.time - q.time) < OVERLAP_MATCH_SECONDS
+        )
+      );
+      if (!isRepeat) classQuestions.push(q);
+    });
+    previousWindowQuestions = windowQuestions;
+    options.onProgress?.({ completed: i + 1, total });
+  }
+
+  let merged: MergedNotes;
+  try {
+    merged = await mergePartialNotes(provider, partials, preferences, options.markers, options.signal);
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error("Failed to merge partial notes, falling back to concatenation:", error);
+    merged = concatPartialNotes(partials, preferences.examQuestionCount);
+  }
+  options.onProgress?.({ completed: total, total });
+
+  const transcript = mergeTranscriptChunks(transcriptChunks, CHUNK_OVERLAP_SECONDS);
+  const keyTerms = merged.keyTerms.map(t => ({
+    ...t,
+    firstMentionTime: termTimes.get(normalizeTermKey(t.term)) ?? findFirstMention(t.term, transcript),
+  }));
+
+  // Students are numbered per window, so "student-1" in two windows may be different people
+  return {
+    ...merged,
+    keyTerms,
+    transcript,
+    classQuestions,
+    speakerNames: {},
+    personalNotes: '',
+  };
+};
+
+const buildSinglePartPrompt = (preferences: AnalysisPreferences, markers?: LectureMarker[]): string => {
+  return `Analyze this lecture recording. Provide a timestamped, speaker-labelled transcript, ${describeOutput(preferences)}.${describeMarkers(markers)}`;
+};
+
+// Cuts the silent stretches out before analysis, then maps every time in the
+// result back onto the original recording so the player still lines up
+const analyzeAudibleParts = async (
+  provider: AnalysisProvider,
+  samples: Float32Array,
+  sampleRate: number,
+  silences: SilenceRange[],
+  preferences: AnalysisPreferences,
+  options: AnalyzeOptions
+): Promise<NoteData> => {
+  const ranges = audibleRanges(silences, samples.length / sampleRate).map(range => ({
+    start: Math.floor(range.start * sampleRate),
+    end: Math.min(samples.length, Math.floor(range.end * sampleRate)),
+  }));
+  // Positions count audible samples only; a read joins the pieces of the
+  // ranges it spans instead of copying all the audible audio up front
+  const audible: SampleSource = {
+    length: ranges.reduce((sum, range) => sum + range.end - range.start, 0),
+    sampleRate,
+    read: (from, to) => {
+      const pieces: Float32Array[] = [];
+      let position = 0;
+      ranges.forEach(range => {
+        const length = range.end - range.start;
+        const start = Math.max(from, position);
+        const end = Math.min(to, position + length);
+        if (start < end) pieces.push(samples.subarray(range.start + start - position, range.start + end - position));
+        position += length;
+      });
+      if (pieces.length === 1) return pieces[0];
+      const joined = new Float32Array(pieces.reduce((sum, piece) => sum + piece.length, 0));
+      let offset = 0;
+      pieces.forEach(piece => {
+        joined.set(piece, offset);
+        offset += piece.length;
+      });
+      return joined;
+    },
+  };
+
+  const markers = options.markers?.map(m => ({ ...m, time: toAudibleTime(silences, m.time) }));
+  // Re-encoded WAV is much larger than the recorded audio, so anything longer
+  // than one window goes through the chunked path
+  const note = audible.length / sampleRate > CHUNK_LENGTH_SECONDS
+    ? await analyzeInChunks(provider, audible, preferences, { ...options, markers })
+    : await analyzeAudioPart(provider, encodeWav(audible.read(0, audible.length), sampleRate), buildSinglePartPrompt(preferences, markers), preferences, options);
+
+  const restore = (time: number) => toOriginalTime(silences, time);
+  return {
+    ...note,
+    transcript: note.transcript.map(seg => ({ ...seg, start: restore(seg.start), end: restore(seg.end) })),
+    keyTerms: note.keyTerms.map(t => ({ ...t, firstMentionTime: t.firstMentionTime === null ? null : restore(t.firstMentionTime) })),
+    classQuestions: note.classQuestions.map(q => ({ ...q, time: restore(q.time) })),
+  };
+};
+
+export const analyzeLectureAudio = async (
+  provider: AnalysisProvider,
+  audioBlob: Blob,
+  options: AnalyzeOptions = {}
+): Promise<NoteData> => {
+  const preferences = options.preferences || DEFAULT_ANALYSIS_PREFERENCES;
+
+  const silences = options.silences || [];
+  // Decoding is only needed to cut audio up; a short recording with nothing to
+  // leave out is sent as it is. An unknown duration is found out by decoding.
+  const mayNeedChunks = !options.duration || options.duration > CHUNK_THRESHOLD_SECONDS;
+
+  let decoded: { samples: Float32Array; sampleRate: number } | null = null;
+  if (silences.length > 0 || mayNeedChunks) {
+    try {
+      decoded = await decodeAudioToMono(audioBlob, ANALYSIS_SAMPLE_RATE);
+    } catch (error) {
+      // Fall back to sending the original file in one request
+      console.error("Failed to decode audio for chunking:", error);
+    }
+  }
+
+  if (decoded && silences.length > 0) {
+    return analyzeAudibleParts(provider, decoded.samples, decoded.sampleRate, silences, preferences, options);
+  }
+
+  if (decoded && decoded.samples.length / decoded.sampleRate > CHUNK_THRESHOLD_SECONDS) {
+    const { samples, sampleRate } = decoded;
+    return analyzeInChunks(provider, { length: samples.length, sampleRate, read: (start, end) => samples.subarray(start, end) }, preferences, options);
+  }
+
+  return analyzeAudioPart(
+    provider,
+    audioBlob,
+    buildSinglePartPrompt(preferences, options.markers),
+    preferences,
+    options
+  );
+};
+
+export interface GradingItem {
+  question: ExamQuestion;
+  answer: string;
+}
+
+const GRADING_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          score: { type: 'number', description: "Score from 0 to 100" },
+          feedback: { type: 'string', description: "Short feedback for the student" }
+        },
+        required: ["score", "feedback"]
+      },
+      description: "One result per question, in the same order as the questions"
+    }
+  },
+  required: ["results"]
+};
+
+export const gradeAnswers = async (
+  provider: AnalysisProvider,
+  transcriptText: string,
+  items: GradingItem[],
+  language: OutputLanguage = DEFAULT_ANALYSIS_PREFERENCES.language
+): Promise<{ score: number; feedback: string }[]> => {
+  const questionText = items.map((item, i) => `
+[Question ${i + 1}]
+${item.question.question}
+Model answer: ${item.question.answer || '(none)'}
+Rubric: ${item.question.rubric.join('; ') || '(none)'}
+Student answer: ${item.answer.trim() || '(no answer)'}
+`).join('\n');
+
+  const text = await provider.generate({
+    systemInstruction: buildGradingInstruction(language),
+    prompt: `Lecture transcript:\n${transcriptText}\n\nGrade these answers.\n${questionText}`,
+    schema: GRADING_SCHEMA,
+  });
+
+  const { data } = readModelResponse(text, GRADING_SCHEMA);
+  const results = (data.results as { score: number; feedback: string }[] | undefined) || [];
+  if (results.length === 0) {
+    throw new AnalysisError('invalid-output', "Grading response has no results");
+  }
+  return items.map((_, i) => {
+    const result = results[i];
+    return {
+      score: Math.max(0, Math.min(100, Math.round(result?.score ?? 0))),
+      feedback: result?.feedback ?? '',
+    };
+  });
+};
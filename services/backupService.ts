@@ -0,0 +1,146 @@
+import { CardReview, CourseDigest, NoteRevision, Recording } from '../types';
+import { createZip, readZip, ZipEntry } from '../utils/zipUtils';
+import { getAudioExtension } from '../utils/audioUtils';
+import { cardReviewRepository, courseDigestRepository, getAudio, normalizeRecording, noteRevisionRepository, saveAudio } from './storageService';
+
+export const BACKUP_FORMAT = 'profnote-backup';
+export const BACKUP_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  recordings: (Omit<Recording, 'audioBlob' | 'progress' | 'date'> & { date: string; audioFile: string | null; audioType: string | null })[];
+  cardReviews?: CardReview[]; // Dates serialized as ISO strings
+  noteRevisions?: NoteRevision[]; // Dates serialized as ISO strings
+  courseDigests?: CourseDigest[]; // Dates serialized as ISO strings
+}
+
+export interface RestoreResult {
+  added: Recording[];
+  addedReviews: CardReview[];
+  addedDigests: CourseDigest[];
+  unchanged: number;
+  conflicts: { id: string; title: string }[];
+}
+
+export const createBackup = async (recordings: Recording[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const noteRevisions: NoteRevision[] = [];
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    recordings: [],
+    cardReviews: await cardReviewRepository.getAll(),
+    noteRevisions,
+    courseDigests: await courseDigestRepository.getAll(),
+  };
+
+  for (const rec of recordings) {
+    const { audioBlob, progress, ...metadata } = rec;
+    const audio = audioBlob || await getAudio(rec.id);
+    const audioFile = audio ? `audio/${rec.id}.${getAudioExtension(audio.type)}` : null;
+
+    if (audio && audioFile) {
+      entries.push({ name: audioFile, data: audio });
+    }
+    manifest.recordings.push({ ...metadata, date: rec.date.toISOString(), audioFile, audioType: audio?.type || null });
+    noteRevisions.push(...await noteRevisionRepository.getByRecording(rec.id));
+  }
+
+  // Manifest first so it is easy to find when inspecting the archive by hand
+  entries.unshift({ name: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) });
+  return createZip(entries);
+};
+
+const readManifest = async (files: Map<string, Blob>): Promise<BackupManifest> => {
+  const manifestFile = files.get(MANIFEST_NAME);
+  if (!manifestFile) {
+    throw new Error("백업 파일에 manifest.json이 없습니다.");
+  }
+
+  const manifest = JSON.parse(await manifestFile.text());
+  if (manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.recordings)) {
+    throw new Error("ProfNote 백업 파일이 아닙니다.");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error("더 최신 버전의 앱에서 만든 백업입니다. 앱을 업데이트한 후 다시 시도해주세요.");
+  }
+  return manifest;
+};
+
+// Compares what the user can see, ignoring transient state
+const sameContent = (a: Recording, b: Recording): boolean => {
+  return a.title === b.title
+    && a.subject === b.subject
+    && a.status === b.status
+    && JSON.stringify(a.data) === JSON.stringify(b.data);
+};
+
+// Merges a backup into the library by id. Recordings that already exist are
+// never overwritten: identical ones are skipped and differing ones are
+// reported as conflicts so nothing local is lost.
+export const restoreBackup = async (archive: Blob, existing: Recording[]): Promise<RestoreResult> => {
+  const files = await readZip(archive);
+  const manifest = await readManifest(files);
+  const existingById = new Map(existing.map(rec => [rec.id, rec]));
+
+  const result: RestoreResult = { added: [], addedReviews: [], addedDigests: [], unchanged: 0, conflicts: [] };
+
+  for (const item of manifest.recordings) {
+    const { audioFile, audioType, ...metadata } = item;
+    const recording = normalizeRecording(metadata);
+    // An analysis that was running when the backup was taken will never finish
+    if (recording.status === 'processing') recording.status = recording.data ? 'completed' : 'recorded';
+    const local = existingById.get(recording.id);
+
+    if (local) {
+      if (sameContent(local, recording)) {
+        result.unchanged += 1;
+      } else {
+        result.conflicts.push({ id: recording.id, title: recording.title });
+      }
+      continue;
+    }
+
+    const audio = audioFile ? files.get(audioFile) : undefined;
+    if (audio) {
+      await saveAudio(recording.id, new Blob([audio], { type: audioType || 'audio/webm' }));
+    }
+    result.added.push(recording);
+  }
+
+  // History comes back only with its note; a note kept locally keeps its own history
+  const addedIds = new Set(result.added.map(rec => rec.id));
+  for (const item of manifest.noteRevisions || []) {
+    if (!addedIds.has(item.recordingId)) continue;
+    await noteRevisionRepository.save({ ...item, date: new Date(item.date) });
+  }
+
+  // Local study progress wins over the backup's
+  const localReviewIds = new Set((await cardReviewRepository.getAll()).map(r => r.cardId));
+  for (const item of manifest.cardReviews || []) {
+    if (localReviewIds.has(item.cardId)) continue;
+    const review: CardReview = {
+      ...item,
+      dueDate: new Date(item.dueDate),
+      lastReviewed: item.lastReviewed ? new Date(item.lastReviewed) : undefined,
+    };
+    await cardReviewRepository.save(review);
+    result.addedReviews.push(review);
+  }
+
+  // Digests cost model calls to regenerate, so they are restored too; a local one
+  // wins, and lectures it does not match are picked up by getDigestChanges
+  const localDigestSubjects = new Set((await courseDigestRepository.getAll()).map(d => d.subject));
+  for (const item of manifest.courseDigests || []) {
+    if (localDigestSubjects.has(item.subject)) continue;
+    const digest: CourseDigest = { ...item, updatedAt: new Date(item.updatedAt) };
+    await courseDigestRepository.save(digest);
+    result.addedDigests.push(digest);
+  }
+
+  return result;
+};
@@ -0,0 +1,114 @@
+import { ChatCitation, ChatMessage, OutputLanguage, Recording } from '../types';
+import { formatDate, formatTime } from '../utils/audioUtils';
+import { getSpeakerName } from '../utils/transcriptUtils';
+import { AnalysisProvider, ResponseSchema } from './analysisProvider';
+import { describeLanguage, readModelResponse } from './analysisService';
+import { AnalysisError } from './analysisErrors';
+import { SearchIndex } from './searchService';
+
+const MAX_SOURCES = 8;
+// Segments on each side of a hit sent along with it, so the model sees the whole explanation
+const CONTEXT_SEGMENTS = 2;
+const HISTORY_TURNS = 6;
+
+const buildChatInstruction = (language: OutputLanguage): string => `
+You are a study assistant answering a student's questions about their own recorded university lectures.
+Answer only from the numbered lecture excerpts you are given. Cite the excerpts you use with their number in square brackets, e.g. [2].
+If the excerpts do not contain the answer, say that the lectures do not seem to cover it instead of guessing.
+Answer in ${describeLanguage(language)}.
+
+Return the output in a strict JSON format.
+`;
+
+const CHAT_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string', description: "The answer, citing excerpts as [n]" }
+  },
+  required: ["answer"]
+};
+
+interface Source {
+  citation: ChatCitation;
+  recording: Recording;
+  text: string;
+}
+
+const collectSources = (index: SearchIndex, recordings: Recording[], question: string): Source[] => {
+  const byId = new Map(recordings.map(rec => [rec.id, rec]));
+  const sources: Source[] = [];
+  // Segment ranges already covered, per recording, so neighbouring hits are not sent twice
+  const covered = new Map<string, [number, number][]>();
+
+  for (const hit of index.search(question)) {
+    if (sources.length >= MAX_SOURCES) break;
+    if (hit.field !== 'transcript') continue;
+
+    const recording = byId.get(hit.recordingId);
+    const transcript = recording?.data?.transcript;
+    if (!recording || !transcript) continue;
+
+    const ranges = covered.get(recording.id) || [];
+    if (ranges.some(([from, to]) => hit.index >= from && hit.index <= to)) continue;
+
+    const from = Math.max(0, hit.index - CONTEXT_SEGMENTS);
+    const to = Math.min(transcript.length - 1, hit.index + CONTEXT_SEGMENTS);
+    covered.set(recording.id, [...ranges, [from, to]]);
+
+    const text = transcript.slice(from, to + 1).map(seg =>
+      seg.speaker ? `${getSpeakerName(seg.speaker, recording.data!.speakerNames)}: ${seg.text}` : seg.text
+    ).join('\n');
+
+    sources.push({
+      citation: { number: sources.length + 1, recordingId: recording.id, segmentIndex: hit.index },
+      recording,
+      text,
+    });
+  }
+
+  return sources;
+};
+
+// Retrieves the transcript passages that best match the question from the local
+// search index and has the provider answer from them, citing passages as [n].
+export const askLectures = async (
+  provider: AnalysisProvider,
+  index: SearchIndex,
+  recordings: Recording[],
+  question: string,
+  history: ChatMessage[],
+  language: OutputLanguage
+): Promise<Omit<ChatMessage, 'id'>> => {
+  const sources = collectSources(index, recordings, question);
+  if (sources.length === 0) {
+    return { role: 'assistant', text: '저장된 강의 스크립트에서 관련된 내용을 찾지 못했습니다. 다른 표현으로 질문해 보세요.', citations: [] };
+  }
+
+  const sourceText = sources.map(({ citation, recording, text }) => {
+    const start = recording.data!.transcript[citation.segmentIndex].start;
+    return `[${citation.number}] ${recording.subject} / ${recording.title} (${formatDate(recording.date)}, ${formatTime(Math.floor(start))})\n${text}`;
+  }).join('\n\n');
+
+  const historyText = history.slice(-HISTORY_TURNS)
+    .map(message => `${message.role === 'user' ? 'Student' : 'Assistant'}: ${message.text}`)
+    .join('\n');
+
+  const text = await provider.generate({
+    systemInstruction: buildChatInstruction(language),
+    prompt: `Lecture excerpts:\n${sourceText}\n\n${historyText ? `Conversation so far:\n${historyText}\n\n` : ''}Question: ${question}`,
+    schema: CHAT_SCHEMA,
+  });
+
+  const { data } = readModelResponse(text, CHAT_SCHEMA);
+  if (typeof data.answer !== 'string') {
+    throw new AnalysisError('invalid-output', "Chat response has no answer");
+  }
+  const answer = data.answer;
+  const cited = new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => Number(match[1])));
+
+  return {
+    role: 'assistant',
+    text: answer,
+    citations: sources.map(source => source.citation).filter(citation => cited.has(citation.number)),
+  };
+};
@@ -0,0 +1,161 @@
+import { CourseDigest, DigestLecture, OutputLanguage, Recording } from '../types';
+import { hashText } from '../utils/noteUtils';
+import { AnalysisProvider, ResponseSchema } from './analysisProvider';
+import { describeLanguage, readModelResponse } from './analysisService';
+import { AnalysisError } from './analysisErrors';
+
+const buildDigestInstruction = (language: OutputLanguage): string => `
+You are an expert academic assistant designed to help students.
+You receive the notes of the lectures of one university course, in the order they were given.
+
+1. Write a short overview of what the course has covered so far in ${describeLanguage(language)}.
+2. List the main topics of each lecture you are given in ${describeLanguage(language)}.
+3. List the themes that come back across several lectures in ${describeLanguage(language)}.
+4. Pick the most important concepts of the course so far, each with one sentence on why it matters, in ${describeLanguage(language)}.
+
+When an existing digest is included, update it with the new lectures instead of starting over, and only list topics for the new lectures.
+
+Return the output in a strict JSON format.
+`;
+
+const DIGEST_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    overview: { type: 'string', description: "Overview of the course so far" },
+    lectures: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          lecture: { type: 'number', description: "Lecture number as given in the prompt" },
+          topics: { type: 'array', items: { type: 'string' } }
+        },
+        required: ["lecture", "topics"]
+      },
+      description: "Main topics of each new lecture"
+    },
+    themes: {
+      type: 'array',
+      items: { type: 'string' },
+      description: "Themes that recur across lectures"
+    },
+    keyConcepts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          term: { type: 'string' },
+          reason: { type: 'string', description: "Why the concept matters in this course" }
+        },
+        required: ["term", "reason"]
+      },
+      description: "The most important concepts of the course so far"
+    }
+  },
+  required: ["overview", "lectures", "themes", "keyConcepts"]
+};
+
+interface DigestResponse {
+  overview: string;
+  lectures: { lecture: number; topics: string[] }[];
+  themes: string[];
+  keyConcepts: { term: string; reason: string }[];
+}
+
+// Lectures that can go into a digest, oldest first
+const digestableLectures = (recordings: Recording[]): Recording[] => {
+  return recordings
+    .filter(rec => rec.status === 'completed' && rec.data)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// Changes only when the parts of a note that feed the digest change
+const fingerprintLecture = (recording: Recording): string => {
+  const { summary, keyTerms } = recording.data!;
+  return hashText(`${summary}\n${keyTerms.map(t => t.term).join('\n')}`);
+};
+
+export interface DigestChanges {
+  added: Recording[];
+  // A digested lecture was deleted, moved to another folder or re-analyzed
+  needsRebuild: boolean;
+}
+
+export const getDigestChanges = (digest: CourseDigest, recordings: Recording[]): DigestChanges => {
+  const lectures = digestableLectures(recordings);
+  const current = new Map(lectures.map(rec => [rec.id, rec]));
+
+  const needsRebuild = digest.lectures.some(lecture => {
+    const rec = current.get(lecture.recordingId);
+    return !rec || fingerprintLecture(rec) !== lecture.fingerprint;
+  });
+  const digested = new Set(digest.lectures.map(lecture => lecture.recordingId));
+
+  return { added: lectures.filter(rec => !digested.has(rec.id)), needsRebuild };
+};
+
+const describeLecture = (recording: Recording, number: number): string => {
+  const { summary, keyTerms } = recording.data!;
+  return `
+[Lecture ${number}] ${recording.title} (${recording.date.toISOString().slice(0, 10)})
+Summary: ${summary}
+Key terms: ${keyTerms.map(t => t.term).join(', ')}
+`;
+};
+
+// Builds a digest for the subject, or brings `previous` up to date. When lectures
+// were only added, just the new lectures are sent along with the previous digest;
+// any other change rebuilds the digest from every lecture.
+export const updateCourseDigest = async (
+  provider: AnalysisProvider,
+  subject: string,
+  recordings: Recording[],
+  language: OutputLanguage,
+  previous?: CourseDigest
+): Promise<CourseDigest> => {
+  const lectures = digestableLectures(recordings);
+  const changes = previous ? getDigestChanges(previous, recordings) : null;
+  const base = changes && !changes.needsRebuild ? previous! : null;
+  const newLectures = base ? changes!.added : lectures;
+
+  if (base && newLectures.length === 0) return base;
+
+  const firstNumber = base ? base.lectures.length + 1 : 1;
+  const existingText = base ? `
+Existing digest:
+Overview: ${base.overview}
+Topics so far:
+${base.lectures.map((lecture, i) => `- Lecture ${i + 1}: ${lecture.topics.join('; ')}`).join('\n')}
+Themes: ${base.themes.join('; ')}
+Key concepts: ${base.keyConcepts.map(c => c.term).join(', ')}
+` : '';
+
+  const text = await provider.generate({
+    systemInstruction: buildDigestInstruction(language),
+    prompt: `Course: ${subject}\n${existingText}\nNew lectures:\n${newLectures.map((rec, i) => describeLecture(rec, firstNumber + i)).join('\n')}`,
+    schema: DIGEST_SCHEMA,
+  });
+
+  // Validated against DIGEST_SCHEMA, so every property present has the schema's shape
+  const { data } = readModelResponse(text, DIGEST_SCHEMA);
+  const parsed = data as Partial<DigestResponse>;
+  if (parsed.overview === undefined) {
+    throw new AnalysisError('invalid-output', "Digest response has no overview");
+  }
+  const topicsByNumber = new Map((parsed.lectures || []).map(l => [l.lecture, l.topics]));
+
+  const added: DigestLecture[] = newLectures.map((rec, i) => ({
+    recordingId: rec.id,
+    fingerprint: fingerprintLecture(rec),
+    topics: topicsByNumber.get(firstNumber + i) || [],
+  }));
+
+  return {
+    subject,
+    overview: parsed.overview,
+    lectures: [...(base?.lectures || []), ...added],
+    themes: parsed.themes || [],
+    keyConcepts: (parsed.keyConcepts || []).filter(c => c.term),
+    updatedAt: new Date(),
+  };
+};
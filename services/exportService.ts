@@ -0,0 +1,329 @@
+import { NoteData, Recording, TranscriptSegment } from '../types';
+import { formatDate, formatTime } from '../utils/audioUtils';
+import { getSpeakerName, transcriptToText } from '../utils/transcriptUtils';
+import { createZip } from '../utils/zipUtils';
+
+export type ExportFormatId = 'markdown' | 'html' | 'anki' | 'vtt' | 'srt' | 'text';
+
+type AnalyzedRecording = Recording & { data: NoteData };
+
+export interface ExportFormat {
+  id: ExportFormatId;
+  label: string;
+  description: string;
+  fileSuffix: string; // appended to the lecture title, e.g. "_notes.md"
+  mimeType: string;
+  // Null when the note has nothing to export in this format (e.g. no transcript)
+  render: (recording: AnalyzedRecording) => string | null;
+  // Formats that read better as one file (a printable document, one Anki deck)
+  // combine a folder's notes; the others are zipped one file per lecture
+  combine?: (recordings: AnalyzedRecording[], subject: string) => string | null;
+}
+
+export interface ExportFile {
+  blob: Blob;
+  fileName: string;
+}
+
+// --- Markdown ---
+
+const renderMarkdown = (recording: AnalyzedRecording): string => {
+  const { summary, transcript, keyTerms, examQuestions, classQuestions, speakerNames, personalNotes } = recording.data;
+  return `
+# ${recording.title}
+과목: ${recording.subject}
+날짜: ${formatDate(recording.date)}
+
+## 📌 핵심 요약
+${summary}
+${personalNotes ? `
+## 🗒️ 내 메모
+${personalNotes}
+` : ''}${recording.markers?.length ? `
+## 🚩 중요 표시
+${recording.markers.map(m => `- [${formatTime(m.time)}]${m.label ? ` ${m.label}` : ''}`).join('\n')}
+` : ''}
+## 🔑 주요 용어
+${keyTerms.map(t => `- **${t.term}**: ${t.definition}`).join('\n')}
+
+## 📝 예상 시험 문제
+${examQuestions.map((q, i) => `${i + 1}. ${q.question}${q.answer ? `\n   - 모범 답안: ${q.answer}` : ''}`).join('\n')}
+${classQuestions.length > 0 ? `
+## 🙋 수업 중 Q&A
+${classQuestions.map(q => `- [${formatTime(Math.floor(q.time))}] Q: ${q.question}\n  A: ${q.answer}`).join('\n')}
+` : ''}
+## 💬 전체 스크립트
+${transcriptToText(transcript, speakerNames)}
+  `.trim();
+};
+
+// --- Plain text ---
+
+const renderText = (recording: AnalyzedRecording): string => {
+  const { summary, transcript, keyTerms, examQuestions, classQuestions, speakerNames, personalNotes } = recording.data;
+  const sections = [
+    `${recording.title}\n${recording.subject} · ${formatDate(recording.date)}`,
+    `[핵심 요약]\n${summary}`,
+    personalNotes && `[내 메모]\n${personalNotes}`,
+    recording.markers?.length && `[중요 표시]\n${recording.markers.map(m => `${formatTime(m.time)} ${m.label}`.trim()).join('\n')}`,
+    keyTerms.length > 0 && `[주요 용어]\n${keyTerms.map(t => `${t.term}: ${t.definition}`).join('\n')}`,
+    examQuestions.length > 0 && `[예상 시험 문제]\n${examQuestions.map((q, i) => `${i + 1}. ${q.question}${q.answer ? `\n   모범 답안: ${q.answer}` : ''}`).join('\n')}`,
+    classQuestions.length > 0 && `[수업 중 Q&A]\n${classQuestions.map(q => `${formatTime(Math.floor(q.time))} Q: ${q.question}\n   A: ${q.answer}`).join('\n')}`,
+    transcript.length > 0 && `[전체 스크립트]\n${transcriptToText(transcript, speakerNames)}`,
+  ];
+  return sections.filter(Boolean).join('\n\n');
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const paragraphs = (text: string): string => text
+  .split(/\n{2,}/)
+  .map(block => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+  .join('\n');
+
+// Self-contained so the file prints the same anywhere; each lecture starts on a new page
+const HTML_STYLE = `
+body { font-family: -apple-system, "Apple SD Gothic Neo", "Malgun Gothic", sans-serif; color: #1e293b; line-height: 1.7; max-width: 780px; margin: 40px auto; padding: 0 24px; }
+h1 { font-size: 1.6em; margin-bottom: 0.2em; }
+h2 { font-size: 1.15em; color: #4338ca; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin-top: 2em; }
+.meta { color: #64748b; margin-top: 0; }
+.summary { background: #eef2ff; border: 1px solid #e0e7ff; border-radius: 8px; padding: 12px 16px; }
+dt { font-weight: 600; margin-top: 0.6em; }
+dd { margin-left: 1em; color: #334155; }
+ol li { margin-bottom: 0.8em; }
+.answer { color: #334155; }
+.rubric { color: #64748b; font-size: 0.9em; }
+.time { font-family: ui-monospace, monospace; color: #64748b; font-size: 0.85em; margin-right: 6px; }
+.speaker { font-weight: 600; margin-right: 6px; }
+.transcript p { margin: 0.3em 0; }
+article + article { break-before: page; }
+@media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+const renderHtmlArticle = (recording: AnalyzedRecording): string => {
+  const { summary, transcript, keyTerms, examQuestions, classQuestions, speakerNames, personalNotes } = recording.data;
+  const sections = [
+    `<h1>${escapeHtml(recording.title)}</h1>\n<p class="meta">${escapeHtml(recording.subject)} · ${formatDate(recording.date)}</p>`,
+    `<h2>핵심 요약</h2>\n<div class="summary">${paragraphs(summary)}</div>`,
+    personalNotes && `<h2>내 메모</h2>\n${paragraphs(personalNotes)}`,
+    recording.markers?.length && `<h2>중요 표시</h2>\n<ul>${recording.markers.map(m =>
+      `<li><span class="time">${formatTime(m.time)}</span>${escapeHtml(m.label)}</li>`).join('')}</ul>`,
+    keyTerms.length > 0 && `<h2>주요 용어</h2>\n<dl>${keyTerms.map(t =>
+      `<dt>${escapeHtml(t.term)}</dt><dd>${escapeHtml(t.definition)}</dd>`).join('')}</dl>`,
+    examQuestions.length > 0 && `<h2>예상 시험 문제</h2>\n<ol>${examQuestions.map(q => `<li>${escapeHtml(q.question)}${
+      q.answer ? `<div class="answer">모범 답안: ${escapeHtml(q.answer)}</div>` : ''}${
+      q.rubric.length > 0 ? `<div class="rubric">채점 기준: ${q.rubric.map(escapeHtml).join(' · ')}</div>` : ''}</li>`).join('')}</ol>`,
+    classQuestions.length > 0 && `<h2>수업 중 Q&amp;A</h2>\n<ul>${classQuestions.map(q =>
+      `<li><span class="time">${formatTime(Math.floor(q.time))}</span>Q. ${escapeHtml(q.question)}<div class="answer">A. ${escapeHtml(q.answer)}</div></li>`).join('')}</ul>`,
+    transcript.length > 0 && `<h2>전체 스크립트</h2>\n<div class="transcript">${transcript.map((seg, i) => {
+      const isNewTurn = seg.speaker && seg.speaker !== transcript[i - 1]?.speaker;
+      return `<p><span class="time">${formatTime(Math.floor(seg.start))}</span>${
+        isNewTurn ? `<span class="speaker">${escapeHtml(getSpeakerName(seg.speaker!, speakerNames))}</span>` : ''}${escapeHtml(seg.text)}</p>`;
+    }).join('\n')}</div>`,
+  ];
+  return `<article>\n${sections.filter(Boolean).join('\n')}\n</article>`;
+};
+
+const htmlDocument = (title: string, articles: string[]): string => `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${articles.join('\n')}
+</body>
+</html>`;
+
+// --- Anki ---
+
+const csvField = (value: string): string => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Anki tags cannot contain spaces
+const ankiTag = (text: string): string => text.trim().replace(/\s+/g, '_');
+
+const ankiRows = (recording: AnalyzedRecording): string[][] => {
+  const tags = `${ankiTag(recording.subject)} ${ankiTag(recording.title)}`;
+  return [
+    ...recording.data.keyTerms
+      .filter(t => t.definition)
+      .map(t => [t.term, t.definition, tags]),
+    ...recording.data.examQuestions.map(q => [
+      q.question,
+      [q.answer, ...q.rubric.map(point => `- ${point}`)].filter(Boolean).join('\n'),
+      tags,
+    ]),
+  ];
+};
+
+// Header lines tell Anki (2.1.55+) how to read the file without asking
+const ankiDeck = (rows: string[][]): string | null => {
+  if (rows.length === 0) return null;
+  return [
+    '#separator:comma',
+    '#html:false',
+    '#tags column:3',
+    ...rows.map(row => row.map(csvField).join(',')),
+  ].join('\n');
+};
+
+// --- Subtitles ---
+
+const formatCueTime = (seconds: number, separator: '.' | ','): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// Segments can share a start time when the transcript was estimated; cues need a positive length
+const cueTimes = (segments: TranscriptSegment[]) => segments.map(seg => ({
+  start: seg.start,
+  end: seg.end > seg.start ? seg.end : seg.start + 1,
+}));
+
+const renderVtt = (recording: AnalyzedRecording): string | null => {
+  const { transcript, speakerNames } = recording.data;
+  if (transcript.length === 0) return null;
+  const times = cueTimes(transcript);
+  const cues = transcript.map((seg, i) => {
+    // Cue text is markup: "<" and "&" must be escaped and the "-->" arrow cannot appear
+    const text = seg.text.replace(/-->/g, '→').replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    const voice = seg.speaker ? `<v ${getSpeakerName(seg.speaker, speakerNames).replace(/>/g, '')}>` : '';
+    return `${formatCueTime(times[i].start, '.')} --> ${formatCueTime(times[i].end, '.')}\n${voice}${text}`;
+  });
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+};
+
+const renderSrt = (recording: AnalyzedRecording): string | null => {
+  const { transcript, speakerNames } = recording.data;
+  if (transcript.length === 0) return null;
+  const times = cueTimes(transcript);
+  const cues = transcript.map((seg, i) => {
+    const isNewTurn = seg.speaker && seg.speaker !== transcript[i - 1]?.speaker;
+    const text = isNewTurn ? `${getSpeakerName(seg.speaker!, speakerNames)}: ${seg.text}` : seg.text;
+    return `${i + 1}\n${formatCueTime(times[i].start, ',')} --> ${formatCueTime(times[i].end, ',')}\n${text}`;
+  });
+  return `${cues.join('\n\n')}\n`;
+};
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    description: '노션, 옵시디언 등 메모 앱에 붙여넣기',
+    fileSuffix: '_notes.md',
+    mimeType: 'text/markdown;charset=utf-8',
+    render: renderMarkdown,
+  },
+  {
+    id: 'html',
+    label: 'HTML (인쇄용)',
+    description: '브라우저에서 열어 인쇄하거나 PDF로 저장',
+    fileSuffix: '_notes.html',
+    mimeType: 'text/html;charset=utf-8',
+    render: (recording) => htmlDocument(recording.title, [renderHtmlArticle(recording)]),
+    combine: (recordings, subject) => htmlDocument(`${subject} 강의 노트`, recordings.map(renderHtmlArticle)),
+  },
+  {
+    id: 'anki',
+    label: 'Anki 카드 (CSV)',
+    description: '주요 용어와 예상 문제를 Anki 덱으로 가져오기',
+    fileSuffix: '_anki.csv',
+    mimeType: 'text/csv;charset=utf-8',
+    render: (recording) => ankiDeck(ankiRows(recording)),
+    combine: (recordings) => ankiDeck(recordings.flatMap(ankiRows)),
+  },
+  {
+    id: 'vtt',
+    label: 'WebVTT 자막',
+    description: '스크립트를 녹음 파일의 자막으로 사용',
+    fileSuffix: '.vtt',
+    mimeType: 'text/vtt;charset=utf-8',
+    render: renderVtt,
+  },
+  {
+    id: 'srt',
+    label: 'SRT 자막',
+    description: '대부분의 동영상 플레이어에서 쓰는 자막 형식',
+    fileSuffix: '.srt',
+    mimeType: 'application/x-subrip;charset=utf-8',
+    render: renderSrt,
+  },
+  {
+    id: 'text',
+    label: '텍스트',
+    description: '서식 없는 일반 텍스트',
+    fileSuffix: '_notes.txt',
+    mimeType: 'text/plain;charset=utf-8',
+    render: renderText,
+  },
+];
+
+const getFormat = (id: ExportFormatId): ExportFormat => EXPORT_FORMATS.find(format => format.id === id)!;
+
+// Characters that are not allowed in file names on some systems are dropped too
+const toFileName = (title: string): string => title.trim().replace(/[\\/:*?"<>|]/g, '').replace(/\s+/g, '_') || 'lecture';
+
+const isAnalyzed = (recording: Recording): recording is AnalyzedRecording => !!recording.data;
+
+// Null when the note has nothing to export in this format
+export const exportNote = (recording: Recording, formatId: ExportFormatId): ExportFile | null => {
+  if (!isAnalyzed(recording)) return null;
+  const format = getFormat(formatId);
+  const content = format.render(recording);
+  if (content === null) return null;
+  return {
+    blob: new Blob([content], { type: format.mimeType }),
+    fileName: `${toFileName(recording.title)}${format.fileSuffix}`,
+  };
+};
+
+// Exports every analyzed lecture in a subject folder, oldest first. Null when
+// none of them has anything to export in this format.
+export const exportSubject = async (subject: string, recordings: Recording[], formatId: ExportFormatId): Promise<ExportFile | null> => {
+  const format = getFormat(formatId);
+  const analyzed = recordings
+    .filter(isAnalyzed)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (analyzed.length === 0) return null;
+
+  if (format.combine) {
+    const content = format.combine(analyzed, subject);
+    if (content === null) return null;
+    return {
+      blob: new Blob([content], { type: format.mimeType }),
+      fileName: `${toFileName(subject)}${format.fileSuffix}`,
+    };
+  }
+
+  // Numbered so the files sort in lecture order and same-titled lectures do not collide
+  const entries = analyzed.flatMap((recording, i) => {
+    const content = format.render(recording);
+    if (content === null) return [];
+    const number = String(i + 1).padStart(String(analyzed.length).length, '0');
+    return [{ name: `${number}_${toFileName(recording.title)}${format.fileSuffix}`, data: content }];
+  });
+  if (entries.length === 0) return null;
+  return {
+    blob: await createZip(entries),
+    fileName: `${toFileName(subject)}_${format.id}.zip`,
+  };
+};
+
+export const downloadExport = ({ blob, fileName }: ExportFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -1,77 +1,64 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI } from "@google/genai";
 import { blobToBase64 } from '../utils/audioUtils';
-import { NoteData } from '../types';
+import { AnalysisProvider, GenerateRequest } from './analysisProvider';
+import { AnalysisError } from './analysisErrors';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
 
-// System instruction to guide the model's persona
-const SYSTEM_INSTRUCTION = `
-You are an expert academic assistant designed to help students. 
-Your task is to process audio recordings of university lectures.
+// Finish reasons meaning the model stopped because of a content policy
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII']);
 
-1. Transcribe the audio accurately.
-2. Summarize the main points concisely in Korean (한국어).
-3. Extract key terminology and definitions in Korean (한국어).
-4. Suggest potential exam questions based on the content in Korean (한국어).
+let client: GoogleGenAI | null = null;
 
-Return the output in a strict JSON format.
-`;
+// Created on first use so the app can start without a Gemini key when another provider is selected
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+export const createGeminiProvider = (model: string = DEFAULT_GEMINI_MODEL): AnalysisProvider => ({
+  id: 'gemini',
+  generate: async ({ systemInstruction, prompt, schema, audio, signal }: GenerateRequest): Promise<string> => {
+    try {
+      const parts: { inlineData?: { mimeType: string; data: string }; text?: string }[] = [];
 
-export const analyzeLectureAudio = async (audioBlob: Blob): Promise<NoteData> => {
-  try {
-    const base64Audio = await blobToBase64(audioBlob);
-    
-    // Determine mime type (default to webm or map based on blob type)
-    const mimeType = audioBlob.type || 'audio/webm';
+      if (audio) {
+        const base64Audio = await blobToBase64(audio);
+        // Determine mime type (default to webm or map based on blob type)
+        const mimeType = audio.type || 'audio/webm';
+        parts.push({ inlineData: { mimeType, data: base64Audio } });
+      }
+      parts.push({ text: prompt });
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Audio
-            }
-          },
-          {
-            text: "Analyze this lecture recording. Provide a transcript, a summary (in Korean), key terms (in Korean), and exam questions (in Korean)."
-          }
-        ]
-      },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            transcript: { type: Type.STRING, description: "Full transcription of the audio" },
-            summary: { type: Type.STRING, description: "Concise summary of the lecture content in Korean" },
-            keyTerms: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "List of important terms and their brief definitions in Korean"
-            },
-            examQuestions: {
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "3 potential exam questions based on the lecture in Korean"
-            }
-          },
-          required: ["transcript", "summary", "keyTerms", "examQuestions"]
+      const response = await getClient().models.generateContent({
+        model: model || DEFAULT_GEMINI_MODEL,
+        contents: { parts },
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseJsonSchema: schema,
+          abortSignal: signal
         }
+      });
+
+      const blockReason = response.promptFeedback?.blockReason;
+      const finishReason = response.candidates?.[0]?.finishReason;
+      if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+        throw new AnalysisError('safety', `Gemini blocked the response (${blockReason || finishReason})`);
       }
-    });
 
-    if (!response.text) {
-      throw new Error("No response text from Gemini");
-    }
+      // A response cut off by MAX_TOKENS is still returned; analysisService repairs what it can
+      if (!response.text) {
+        throw new AnalysisError('invalid-output', "No response text from Gemini");
+      }
 
-    const data = JSON.parse(response.text) as NoteData;
-    return data;
+      return response.text;
 
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
+    } catch (error) {
+      console.error("Gemini API Error:", error);
+      throw error;
+    }
   }
-};
\ No newline at end of file
+});
@@ -0,0 +1,29 @@
+import { GlossaryEntry, Recording } from '../types';
+import { normalizeTermKey } from '../utils/noteUtils';
+
+// Merges the key terms of all given recordings (usually one subject folder) into
+// one alphabetical glossary. Recordings are expected newest first, as stored.
+export const buildGlossary = (recordings: Recording[]): GlossaryEntry[] => {
+  const entries = new Map<string, GlossaryEntry>();
+
+  // Oldest lecture first, so a term is listed under the spelling it was introduced with
+  [...recordings].reverse().forEach(rec => {
+    if (rec.status !== 'completed' || !rec.data) return;
+
+    rec.data.keyTerms.forEach(({ term, definition, firstMentionTime }, termIndex) => {
+      const key = normalizeTermKey(term);
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { term, definition, mentions: [] };
+        entries.set(key, entry);
+      }
+      // Keep the most complete definition
+      if (definition.length > entry.definition.length) entry.definition = definition;
+      if (!entry.mentions.some(m => m.recordingId === rec.id)) {
+        entry.mentions.push({ recordingId: rec.id, termIndex, firstMentionTime });
+      }
+    });
+  });
+
+  return Array.from(entries.values()).sort((a, b) => a.term.localeCompare(b.term, 'ko'));
+};
@@ -0,0 +1,46 @@
+import { getAudioExtension } from '../utils/audioUtils';
+import { AnalysisProvider, GenerateRequest } from './analysisProvider';
+import { AnalysisError, classifyHttpStatus } from './analysisErrors';
+
+// Talks to a self-hosted server (e.g. Whisper for transcription + a local LLM).
+// Contract:
+//   POST {endpoint}/analyze   multipart/form-data: audio, system, prompt, schema
+//   POST {endpoint}/generate  application/json: { system, prompt, schema }
+// Both respond with a JSON body that matches `schema`.
+export const createLocalProvider = (endpoint: string): AnalysisProvider => ({
+  id: 'local',
+  generate: async ({ systemInstruction, prompt, schema, audio, signal }: GenerateRequest): Promise<string> => {
+    const baseUrl = endpoint.trim().replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new AnalysisError('auth', "로컬 분석 서버 주소가 설정되지 않았습니다.");
+    }
+
+    let response: Response;
+    try {
+      if (audio) {
+        const form = new FormData();
+        form.append('audio', audio, `audio.${getAudioExtension(audio.type)}`);
+        form.append('system', systemInstruction);
+        form.append('prompt', prompt);
+        form.append('schema', JSON.stringify(schema));
+        response = await fetch(`${baseUrl}/analyze`, { method: 'POST', body: form, signal });
+      } else {
+        response = await fetch(`${baseUrl}/generate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ system: systemInstruction, prompt, schema }),
+          signal,
+        });
+      }
+    } catch (error) {
+      console.error("Local provider request failed:", error);
+      throw error;
+    }
+
+    if (!response.ok) {
+      throw new AnalysisError(classifyHttpStatus(response.status), `Local provider responded with ${response.status}`);
+    }
+
+    return response.text();
+  }
+});
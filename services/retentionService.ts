@@ -0,0 +1,16 @@
+import { Recording } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only analyzed lectures can lose their audio: the note is all that is left
+// afterwards, so a failed or pending analysis could never be retried
+export const canDiscardAudio = (recording: Recording): boolean => {
+  return recording.status === 'completed' && !!recording.data && !recording.audioDiscardedAt;
+};
+
+// Recordings whose audio the retention rule says to drop
+export const getExpiredAudio = (recordings: Recording[], retentionDays: number | null, now = new Date()): Recording[] => {
+  if (retentionDays === null) return [];
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  return recordings.filter(rec => canDiscardAudio(rec) && rec.date.getTime() < cutoff);
+};
@@ -0,0 +1,40 @@
+import { NoteData, NoteRevision } from '../types';
+import { noteRevisionRepository } from './storageService';
+
+const createRevision = (recordingId: string, source: NoteRevision['source'], data: NoteData): NoteRevision => ({
+  id: `${recordingId}:${Date.now().toString(36)}${Math.random().toString(36).substr(2, 4)}`,
+  recordingId,
+  date: new Date(),
+  source,
+  data,
+});
+
+export const getRevisions = (recordingId: string): Promise<NoteRevision[]> => {
+  return noteRevisionRepository.getByRecording(recordingId);
+};
+
+// The AI output that edits are compared against: the latest analysis, or for notes
+// analyzed before revisions existed, the oldest version on record
+export const findOriginal = (revisions: NoteRevision[]): NoteRevision | undefined => {
+  const analyses = revisions.filter(rev => rev.source === 'analysis');
+  return analyses[analyses.length - 1] || revisions[0];
+};
+
+export const recordAnalysis = async (recordingId: string, data: NoteData): Promise<void> => {
+  await noteRevisionRepository.save(createRevision(recordingId, 'analysis', data));
+};
+
+// `previous` is stored first when the note has no history yet, so the
+// unedited AI output of older notes is not lost on their first edit
+export const recordEdit = async (
+  recordingId: string,
+  previous: NoteData,
+  next: NoteData,
+  source: 'edit' | 'revert' = 'edit'
+): Promise<void> => {
+  const revisions = await noteRevisionRepository.getByRecording(recordingId);
+  if (revisions.length === 0) {
+    await noteRevisionRepository.save({ ...createRevision(recordingId, 'analysis', previous), date: new Date(Date.now() - 1) });
+  }
+  await noteRevisionRepository.save(createRevision(recordingId, source, next));
+};
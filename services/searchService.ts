@@ -0,0 +1,217 @@
+import { NoteField, Recording } from '../types';
+
+export type SearchField = NoteField;
+
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][]; // [start, end) offsets into `text`
+}
+
+export interface SearchHit {
+  recordingId: string;
+  field: SearchField;
+  index: number; // position within the field (segment / term / question index)
+  score: number;
+  snippet: SearchSnippet;
+}
+
+export interface SearchIndex {
+  search: (query: string, limit?: number) => SearchHit[];
+}
+
+interface Passage {
+  recordingId: string;
+  field: SearchField;
+  index: number;
+  text: string;
+  length: number; // token count
+}
+
+const FIELD_BOOST: Record<SearchField, number> = {
+  title: 3,
+  keyTerm: 2,
+  summary: 1.5,
+  examQuestion: 1.5,
+  classQuestion: 1.5,
+  transcript: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Common Korean particles (조사), longest first so "에서는" wins over "는"
+const PARTICLES = [
+  '에서는', '에게서', '으로는', '이라는', '에서', '에게', '으로', '까지', '부터', '처럼', '보다', '라는', '이란', '이나', '하고', '에는',
+  '은', '는', '이', '가', '을', '를', '의', '에', '와', '과', '도', '로', '만', '란',
+];
+
+const HANGUL_RUN = /[가-힣]+/;
+const WORD_PATTERN = /[가-힣]+|[^\s가-힣\p{P}\p{S}]+/gu;
+
+const stripParticle = (word: string): string => {
+  for (const particle of PARTICLES) {
+    if (word.length - particle.length >= 2 && word.endsWith(particle)) {
+      return word.slice(0, -particle.length);
+    }
+  }
+  return word;
+};
+
+// Korean words are inflected and compounded freely, so they are indexed as
+// character bigrams of the particle-stripped stem. Other scripts use whole words.
+const splitWords = (text: string): string[] => {
+  return (text.normalize('NFC').toLowerCase().match(WORD_PATTERN) || [])
+    // A particle on its own (e.g. after a Latin word as in "TCP에서") carries no meaning
+    .filter(word => !PARTICLES.includes(word))
+    .map(word => HANGUL_RUN.test(word) ? stripParticle(word) : word);
+};
+
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  splitWords(text).forEach(word => {
+    if (!HANGUL_RUN.test(word)) {
+      tokens.push(word);
+    } else if (word.length === 1) {
+      tokens.push(word);
+    } else {
+      for (let i = 0; i < word.length - 1; i++) {
+        tokens.push(word.slice(i, i + 2));
+      }
+    }
+  });
+  return tokens;
+};
+
+const collectPassages = (recording: Recording): Omit<Passage, 'length'>[] => {
+  const base = { recordingId: recording.id };
+  const passages: Omit<Passage, 'length'>[] = [{ ...base, field: 'title', index: 0, text: recording.title }];
+
+  if (recording.data) {
+    const { summary, keyTerms, examQuestions, classQuestions, transcript } = recording.data;
+    passages.push({ ...base, field: 'summary', index: 0, text: summary });
+    keyTerms.forEach((t, index) => passages.push({ ...base, field: 'keyTerm', index, text: `${t.term}: ${t.definition}` }));
+    examQuestions.forEach((q, index) => passages.push({ ...base, field: 'examQuestion', index, text: q.question }));
+    classQuestions.forEach((q, index) => passages.push({ ...base, field: 'classQuestion', index, text: q.question }));
+    transcript.forEach((seg, index) => passages.push({ ...base, field: 'transcript', index, text: seg.text }));
+  }
+
+  return passages;
+};
+
+const findHighlights = (text: string, query: string): [number, number][] => {
+  const lower = text.normalize('NFC').toLowerCase();
+
+  const locate = (terms: string[]): [number, number][] => {
+    const found: [number, number][] = [];
+    terms.forEach(term => {
+      let pos = lower.indexOf(term);
+      while (pos !== -1) {
+        found.push([pos, pos + term.length]);
+        pos = lower.indexOf(term, pos + term.length);
+      }
+    });
+    return found;
+  };
+
+  // Fall back to bigrams when no stem appears verbatim
+  let ranges = locate(splitWords(query));
+  if (ranges.length === 0) ranges = locate(tokenize(query));
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  });
+  return merged;
+};
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+
+export const buildSnippet = (text: string, query: string): SearchSnippet => {
+  const highlights = findHighlights(text, query);
+  const anchor = highlights.length > 0 ? highlights[0][0] : 0;
+  const start = Math.max(0, anchor - SNIPPET_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: prefix + text.slice(start, end) + suffix,
+    highlights: highlights
+      .filter(([s, e]) => s < end && e > start)
+      .map(([s, e]) => [Math.max(s, start) + shift, Math.min(e, end) + shift]),
+  };
+};
+
+export const buildSearchIndex = (recordings: Recording[]): SearchIndex => {
+  const passages: Passage[] = [];
+  const postings = new Map<string, Map<number, number>>(); // token -> passage -> term frequency
+
+  recordings.forEach(rec => {
+    collectPassages(rec).forEach(passage => {
+      const tokens = tokenize(passage.text);
+      const id = passages.length;
+      passages.push({ ...passage, length: tokens.length });
+
+      tokens.forEach(token => {
+        let list = postings.get(token);
+        if (!list) {
+          list = new Map();
+          postings.set(token, list);
+        }
+        list.set(id, (list.get(id) || 0) + 1);
+      });
+    });
+  });
+
+  const avgLength = passages.reduce((sum, p) => sum + p.length, 0) / (passages.length || 1);
+
+  const search = (query: string, limit = 50): SearchHit[] => {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) return [];
+
+    const scores = new Map<number, { score: number; matched: number }>();
+
+    queryTokens.forEach(token => {
+      const list = postings.get(token);
+      if (!list) return;
+
+      const idf = Math.log(1 + (passages.length - list.size + 0.5) / (list.size + 0.5));
+      list.forEach((tf, id) => {
+        const passage = passages[id];
+        const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * passage.length / (avgLength || 1)));
+        const entry = scores.get(id) || { score: 0, matched: 0 };
+        entry.score += idf * norm * FIELD_BOOST[passage.field];
+        entry.matched += 1;
+        scores.set(id, entry);
+      });
+    });
+
+    return Array.from(scores.entries())
+      // Passages that contain every query token rank well above partial matches
+      .map(([id, { score, matched }]) => ({ id, score: score * Math.pow(matched / queryTokens.length, 2) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ id, score }) => {
+        const passage = passages[id];
+        return {
+          recordingId: passage.recordingId,
+          field: passage.field,
+          index: passage.index,
+          score,
+          snippet: buildSnippet(passage.text, query),
+        };
+      });
+  };
+
+  return { search };
+};
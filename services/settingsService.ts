@@ -0,0 +1,61 @@
+import { AnalysisPreferences, AppSettings } from '../types';
+import { AnalysisProvider } from './analysisProvider';
+import { DEFAULT_ANALYSIS_PREFERENCES } from './analysisService';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiService';
+import { createLocalProvider } from './localProvider';
+
+const SETTINGS_KEY = 'profnote-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  localEndpoint: 'http://localhost:8000',
+  analysis: DEFAULT_ANALYSIS_PREFERENCES,
+  promptTemplates: [],
+  autoPauseOnSilence: false,
+  audioQuality: 'standard',
+  audioRetentionDays: null,
+  analysisConcurrency: 2,
+  timetable: [],
+  semesterStart: null,
+};
+
+export const loadSettings = (): AppSettings => {
+  if (typeof window === 'undefined') return DEFAULT_SETTINGS;
+
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return DEFAULT_SETTINGS;
+
+  try {
+    // Merge so settings saved by older versions pick up new defaults
+    const parsed = JSON.parse(saved);
+    return { ...DEFAULT_SETTINGS, ...parsed, analysis: { ...DEFAULT_ANALYSIS_PREFERENCES, ...parsed.analysis } };
+  } catch (error) {
+    console.error("Failed to load settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const createAnalysisProvider = (settings: AppSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case 'local':
+      return createLocalProvider(settings.localEndpoint);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.geminiModel);
+  }
+};
+
+
+// The first template assigned to the subject folder wins; otherwise the app-wide defaults apply
+export const resolveAnalysisPreferences = (settings: AppSettings, subject: string): AnalysisPreferences => {
+  const template = settings.promptTemplates.find(t => t.subjects.includes(subject));
+  if (!template) return settings.analysis;
+
+  const { language, examQuestionCount, summaryStyle, customInstructions } = template;
+  return { language, examQuestionCount, summaryStyle, customInstructions };
+};
\ No newline at end of file
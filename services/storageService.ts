@@ -1,59 +1,380 @@
+import { AnalysisJob, CardReview, CourseDigest, ExamQuestion, NoteRevision, QuizAnswerResult, QuizAttempt, Recording, RecordingSession } from '../types';
+import { normalizeNoteData } from '../utils/noteUtils';
+
 export const DB_NAME = 'ProfNoteAudioDB';
+export const DB_VERSION = 7;
 export const STORE_NAME = 'audio_files';
+export const SESSION_STORE_NAME = 'recording_sessions';
+export const SESSION_CHUNK_STORE_NAME = 'session_chunks';
+export const RECORDING_STORE_NAME = 'recordings';
+export const CARD_REVIEW_STORE_NAME = 'card_reviews';
+export const COURSE_DIGEST_STORE_NAME = 'course_digests';
+export const NOTE_REVISION_STORE_NAME = 'note_revisions';
+export const ANALYSIS_JOB_STORE_NAME = 'analysis_jobs';
+
+// Recording metadata lived here before schema v3
+const LEGACY_RECORDINGS_KEY = 'profnote-recordings';
+
+// Quiz results saved before the question was stored with them only have its position
+type StoredQuizAttempt = Omit<QuizAttempt, 'date' | 'results'> & {
+  date: string | Date;
+  results: (Omit<QuizAnswerResult, 'question' | 'modelAnswer'> & Partial<QuizAnswerResult>)[];
+};
+
+// Old results are matched to the note's current questions, the best that can be done for them
+const normalizeQuizAttempt = (attempt: StoredQuizAttempt, questions: ExamQuestion[]): QuizAttempt => ({
+  ...attempt,
+  date: new Date(attempt.date),
+  results: attempt.results.map(result => ({
+    ...result,
+    question: result.question ?? questions[result.questionIndex]?.question ?? '',
+    modelAnswer: result.modelAnswer ?? questions[result.questionIndex]?.answer ?? '',
+  })),
+});
+
+// A recording as stored by any earlier version: dates are serialized, the note
+// may have an older shape and fields added since may be missing
+type StoredRecording = Omit<Recording, 'subject' | 'date' | 'data' | 'quizAttempts' | 'audioDiscardedAt' | 'audioBlob'> & {
+  audioBlob?: unknown;
+  subject?: string;
+  date: string | Date;
+  data?: unknown;
+  quizAttempts?: StoredQuizAttempt[];
+  audioDiscardedAt?: string | Date;
+};
+
+// Brings stored recordings of any older shape up to the current `Recording` type
+export const normalizeRecording = (item: StoredRecording): Recording => {
+  // Blobs serialized to localStorage before v3 came back as `{}`, and were
+  // copied into this store by the v3 migration
+  const { audioBlob, ...rest } = item;
+  const data = item.data ? normalizeNoteData(item.data, item.duration) : undefined;
+  return {
+    ...rest,
+    audioBlob: audioBlob instanceof Blob ? audioBlob : undefined,
+    subject: item.subject || '기타',
+    date: new Date(item.date),
+    data,
+    quizAttempts: item.quizAttempts?.map(attempt => normalizeQuizAttempt(attempt, data?.examQuestions || [])),
+    audioDiscardedAt: item.audioDiscardedAt ? new Date(item.audioDiscardedAt) : undefined,
+  };
+};
+
+const readLegacyRecordings = (): Recording[] => {
+  const savedData = localStorage.getItem(LEGACY_RECORDINGS_KEY);
+  if (!savedData) return [];
+
+  try {
+    return JSON.parse(savedData).map(normalizeRecording);
+  } catch (error) {
+    console.error("Failed to read legacy recordings from localStorage:", error);
+    return [];
+  }
+};
+
+// Upgrade steps, applied in order. MIGRATIONS[n] upgrades the schema from
+// version n to n + 1, so a fresh install runs all of them and an existing
+// database only runs the ones it has not seen yet. Never edit a released step;
+// append a new one and bump DB_VERSION instead.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // v1: audio blobs keyed by recording id
+  (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      db.createObjectStore(STORE_NAME);
+    }
+  },
+  // v2: crash-recovery sessions and their chunks
+  (db) => {
+    if (!db.objectStoreNames.contains(SESSION_STORE_NAME)) {
+      db.createObjectStore(SESSION_STORE_NAME, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(SESSION_CHUNK_STORE_NAME)) {
+      const chunkStore = db.createObjectStore(SESSION_CHUNK_STORE_NAME, { autoIncrement: true });
+      chunkStore.createIndex('sessionId', 'sessionId');
+    }
+  },
+  // v3: recording metadata, imported once from localStorage
+  (db, transaction) => {
+    db.createObjectStore(RECORDING_STORE_NAME, { keyPath: 'id' });
+    const store = transaction.objectStore(RECORDING_STORE_NAME);
+    readLegacyRecordings().forEach(rec => store.put(rec));
+    transaction.addEventListener('complete', () => localStorage.removeItem(LEGACY_RECORDINGS_KEY));
+  },
+  // v4: flashcard review state
+  (db) => {
+    db.createObjectStore(CARD_REVIEW_STORE_NAME, { keyPath: 'cardId' });
+  },
+  // v5: cached course digests, one per subject folder
+  (db) => {
+    db.createObjectStore(COURSE_DIGEST_STORE_NAME, { keyPath: 'subject' });
+  },
+  // v6: note revision history
+  (db) => {
+    const revisionStore = db.createObjectStore(NOTE_REVISION_STORE_NAME, { keyPath: 'id' });
+    revisionStore.createIndex('recordingId', 'recordingId');
+  },
+  // v7: pending analysis jobs, resumed after a reload
+  (db) => {
+    db.createObjectStore(ANALYSIS_JOB_STORE_NAME, { keyPath: 'recordingId' });
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
 
 export const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+      const db = request.result;
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, transaction);
       }
     };
 
-    request.onsuccess = (event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the schema; let it proceed and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
     };
 
-    request.onerror = (event) => {
-      reject((event.target as IDBOpenDBRequest).error);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
     };
   });
+
+  return dbPromise;
 };
 
-export const saveAudio = async (id: string, blob: Blob): Promise<void> => {
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(blob, id);
+    const transaction = db.transaction([storeName], mode);
+    const request = operation(transaction.objectStore(storeName));
 
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const getAudio = async (id: string): Promise<Blob | undefined> => {
+// --- Audio ---
+
+export const saveAudio = async (id: string, blob: Blob): Promise<void> => {
+  await runRequest(STORE_NAME, 'readwrite', store => store.put(blob, id));
+};
+
+export const getAudio = (id: string): Promise<Blob | undefined> => {
+  return runRequest(STORE_NAME, 'readonly', store => store.get(id));
+};
+
+export const deleteAudio = async (id: string): Promise<void> => {
+  await runRequest(STORE_NAME, 'readwrite', store => store.delete(id));
+};
+
+// Size in bytes of every stored audio blob, keyed by recording id
+export const getAudioSizes = async (): Promise<Map<string, number>> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.get(id);
+    const sizes = new Map<string, number>();
+    const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).openCursor();
 
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(sizes);
+        return;
+      }
+      sizes.set(String(cursor.key), (cursor.value as Blob).size);
+      cursor.continue();
+    };
     request.onerror = () => reject(request.error);
   });
 };
 
-export const deleteAudio = async (id: string): Promise<void> => {
+// --- Browser storage ---
+
+export interface StorageEstimate {
+  usage: number; // bytes used by this origin, including IndexedDB
+  quota: number; // bytes the browser allows this origin to use
+}
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const isStoragePersisted = async (): Promise<boolean> => {
+  if (!navigator.storage?.persisted) return false;
+  return navigator.storage.persisted();
+};
+
+// Persistent storage is not evicted when the device runs low on space.
+// Browsers may grant or deny the request without asking the user.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
+
+// --- Recordings ---
+
+export const recordingRepository = {
+  getAll: async (): Promise<Recording[]> => {
+    const items = await runRequest<StoredRecording[]>(RECORDING_STORE_NAME, 'readonly', store => store.getAll());
+    return items.map(normalizeRecording).sort((a, b) => b.date.getTime() - a.date.getTime());
+  },
+
+  get: async (id: string): Promise<Recording | undefined> => {
+    const item = await runRequest<StoredRecording | undefined>(RECORDING_STORE_NAME, 'readonly', store => store.get(id));
+    return item ? normalizeRecording(item) : undefined;
+  },
+
+  save: async (recording: Recording): Promise<void> => {
+    // Audio has its own store; transient progress is not worth persisting
+    const { audioBlob, progress, ...persisted } = recording;
+    await runRequest(RECORDING_STORE_NAME, 'readwrite', store => store.put(persisted));
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await runRequest(RECORDING_STORE_NAME, 'readwrite', store => store.delete(id));
+  },
+};
+
+// --- Flashcard reviews ---
+
+export const cardReviewRepository = {
+  getAll: (): Promise<CardReview[]> => {
+    return runRequest(CARD_REVIEW_STORE_NAME, 'readonly', store => store.getAll());
+  },
+
+  save: async (review: CardReview): Promise<void> => {
+    await runRequest(CARD_REVIEW_STORE_NAME, 'readwrite', store => store.put(review));
+  },
+};
+
+// --- Course digests ---
+
+export const courseDigestRepository = {
+  getAll: (): Promise<CourseDigest[]> => {
+    return runRequest(COURSE_DIGEST_STORE_NAME, 'readonly', store => store.getAll());
+  },
+
+  save: async (digest: CourseDigest): Promise<void> => {
+    await runRequest(COURSE_DIGEST_STORE_NAME, 'readwrite', store => store.put(digest));
+  },
+
+  remove: async (subject: string): Promise<void> => {
+    await runRequest(COURSE_DIGEST_STORE_NAME, 'readwrite', store => store.delete(subject));
+  },
+};
+
+// --- Analysis jobs ---
+
+export const analysisJobRepository = {
+  getAll: (): Promise<AnalysisJob[]> => {
+    return runRequest(ANALYSIS_JOB_STORE_NAME, 'readonly', store => store.getAll());
+  },
+
+  save: async (job: AnalysisJob): Promise<void> => {
+    await runRequest(ANALYSIS_JOB_STORE_NAME, 'readwrite', store => store.put(job));
+  },
+
+  remove: async (recordingId: string): Promise<void> => {
+    await runRequest(ANALYSIS_JOB_STORE_NAME, 'readwrite', store => store.delete(recordingId));
+  },
+};
+
+// --- Note revisions ---
+
+export const noteRevisionRepository = {
+  // Oldest first
+  getByRecording: async (recordingId: string): Promise<NoteRevision[]> => {
+    const items = await runRequest<NoteRevision[]>(
+      NOTE_REVISION_STORE_NAME,
+      'readonly',
+      store => store.index('recordingId').getAll(recordingId)
+    );
+    return items.sort((a, b) => a.date.getTime() - b.date.getTime());
+  },
+
+  save: async (revision: NoteRevision): Promise<void> => {
+    await runRequest(NOTE_REVISION_STORE_NAME, 'readwrite', store => store.put(revision));
+  },
+
+  removeByRecording: async (recordingId: string): Promise<void> => {
+    const db = await initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([NOTE_REVISION_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(NOTE_REVISION_STORE_NAME);
+      const cursorRequest = store.index('recordingId').openKeyCursor(IDBKeyRange.only(recordingId));
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          store.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+};
+
+// --- Recording sessions (crash recovery) ---
+
+export const saveRecordingSession = async (session: RecordingSession): Promise<void> => {
+  await runRequest(SESSION_STORE_NAME, 'readwrite', store => store.put(session));
+};
+
+export const appendSessionChunk = async (sessionId: string, seq: number, blob: Blob): Promise<void> => {
+  await runRequest(SESSION_CHUNK_STORE_NAME, 'readwrite', store => store.add({ sessionId, seq, blob }));
+};
+
+export const getRecordingSessions = (): Promise<RecordingSession[]> => {
+  return runRequest(SESSION_STORE_NAME, 'readonly', store => store.getAll());
+};
+
+// Reassembles the chunks of a session into one blob, in recording order
+export const getSessionAudio = async (session: RecordingSession): Promise<Blob> => {
+  const chunks = await runRequest<{ seq: number; blob: Blob }[]>(
+    SESSION_CHUNK_STORE_NAME,
+    'readonly',
+    store => store.index('sessionId').getAll(session.id)
+  );
+  chunks.sort((a, b) => a.seq - b.seq);
+  return new Blob(chunks.map(c => c.blob), { type: session.mimeType });
+};
+
+export const deleteRecordingSession = async (sessionId: string): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+    const transaction = db.transaction([SESSION_STORE_NAME, SESSION_CHUNK_STORE_NAME], 'readwrite');
+    transaction.objectStore(SESSION_STORE_NAME).delete(sessionId);
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    const chunkStore = transaction.objectStore(SESSION_CHUNK_STORE_NAME);
+    const cursorRequest = chunkStore.index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        chunkStore.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 };
@@ -0,0 +1,40 @@
+import { CardReview, Flashcard, Recording } from '../types';
+import { isDue } from '../utils/sm2';
+import { hashText } from '../utils/noteUtils';
+
+export const buildFlashcards = (recordings: Recording[]): Flashcard[] => {
+  const cards: Flashcard[] = [];
+
+  recordings.forEach(rec => {
+    if (rec.status !== 'completed' || !rec.data) return;
+    const base = { recordingId: rec.id, subject: rec.subject };
+
+    rec.data.keyTerms.forEach(({ term, definition }) => {
+      if (!definition) return;
+      cards.push({ ...base, id: `${rec.id}:term:${hashText(term)}`, kind: 'term', front: term, back: definition });
+    });
+
+    rec.data.examQuestions.forEach(({ question, answer }) => {
+      cards.push({
+        ...base,
+        id: `${rec.id}:question:${hashText(question)}`,
+        kind: 'question',
+        front: question,
+        back: answer || '강의 노트에서 답을 확인해 보세요.',
+      });
+    });
+  });
+
+  return cards;
+};
+
+export const getDueCards = (cards: Flashcard[], reviews: Map<string, CardReview>, now: Date = new Date()): Flashcard[] => {
+  return cards
+    .filter(card => isDue(reviews.get(card.id), now))
+    // Overdue cards first, new cards last
+    .sort((a, b) => {
+      const dueA = reviews.get(a.id)?.dueDate.getTime() ?? Infinity;
+      const dueB = reviews.get(b.id)?.dueDate.getTime() ?? Infinity;
+      return dueA - dueB;
+    });
+};
@@ -0,0 +1,99 @@
+import { ClassSlot } from '../types';
+import { IcsEvent } from '../utils/icsUtils';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// A recording started this long before a class still belongs to it
+const EARLY_START_MINUTES = 10;
+
+export const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTimeString = (date: Date): string => {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+export const toDateString = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateString = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Weeks start on Monday, like a university timetable
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+// Monday-first order, the way timetables are read
+export const sortSlots = (slots: ClassSlot[]): ClassSlot[] => {
+  const dayOrder = (weekday: number) => (weekday + 6) % 7;
+  return [...slots].sort((a, b) => dayOrder(a.weekday) - dayOrder(b.weekday) || toMinutes(a.start) - toMinutes(b.start));
+};
+
+// The class going on at `date`, allowing `earlyMinutes` before it starts.
+// Slots still missing a subject name are skipped.
+export const findClassAt = (slots: ClassSlot[], date: Date, earlyMinutes = 0): ClassSlot | null => {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return slots.find(slot =>
+    slot.subject.trim() &&
+    slot.weekday === date.getDay() &&
+    minutes >= toMinutes(slot.start) - earlyMinutes &&
+    minutes < toMinutes(slot.end)
+  ) ?? null;
+};
+
+// 1-based week of the semester, or null before it starts or when no start is set.
+// Rounded because a week with a daylight saving change is not exactly WEEK_MS long.
+export const getSemesterWeek = (semesterStart: string | null, date: Date): number | null => {
+  if (!semesterStart) return null;
+  const week = Math.round((startOfWeek(date).getTime() - startOfWeek(fromDateString(semesterStart)).getTime()) / WEEK_MS) + 1;
+  return week >= 1 ? week : null;
+};
+
+// Subject and title for a recording started at `startedAt`, e.g. "운영체제 7주차 2차시"
+// for the second weekly class of the subject in week 7. Null outside class hours.
+export const describeScheduledClass = (
+  slots: ClassSlot[],
+  semesterStart: string | null,
+  startedAt: Date
+): { subject: string; title: string } | null => {
+  const slot = findClassAt(slots, startedAt, EARLY_START_MINUTES);
+  if (!slot) return null;
+
+  const subject = slot.subject.trim();
+  const session = sortSlots(slots.filter(s => s.subject.trim() === subject)).indexOf(slot) + 1;
+  const week = getSemesterWeek(semesterStart, startedAt);
+  const when = week !== null ? `${week}주차` : `${startedAt.getMonth() + 1}월 ${startedAt.getDate()}일`;
+  return { subject, title: `${subject} ${when} ${session}차시` };
+};
+
+// Turns calendar events into weekly slots. Portals export either one weekly
+// recurring event per class or every single session; both collapse to the same
+// slots. The semester is taken to start with the earliest event.
+export const slotsFromIcsEvents = (
+  events: IcsEvent[],
+  createId: () => string
+): { slots: ClassSlot[]; semesterStart: string | null } => {
+  const slots = new Map<string, ClassSlot>();
+  events.forEach(event => {
+    const subject = event.summary || '기타';
+    const start = toTimeString(event.start);
+    const end = toTimeString(event.end);
+    (event.weekdays || [event.start.getDay()]).forEach(weekday => {
+      const key = `${subject}|${weekday}|${start}|${end}`;
+      if (!slots.has(key)) slots.set(key, { id: createId(), subject, weekday, start, end });
+    });
+  });
+
+  const earliest = events.reduce<Date | null>((min, event) => !min || event.start < min ? event.start : min, null);
+  return { slots: sortSlots(Array.from(slots.values())), semesterStart: earliest ? toDateString(earliest) : null };
+};
@@ -1,20 +1,254 @@
+export interface TranscriptSegment {
+  start: number; // in seconds from the beginning of the recording
+  end: number; // in seconds
+  text: string;
+  speaker?: string; // Speaker id from the analysis, e.g. "professor" or "student-1"
+}
+
+export interface KeyTerm {
+  term: string;
+  definition: string;
+  firstMentionTime: number | null; // seconds into the recording; null when the term is never said verbatim
+}
+
+// A key term merged across every lecture of a subject that mentions it
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+  mentions: { recordingId: string; termIndex: number; firstMentionTime: number | null }[];
+}
+
+// A question a student asked during the lecture and the answer that was given
+export interface ClassQuestion {
+  question: string;
+  answer: string;
+  time: number; // seconds into the recording where the question was asked
+}
+
+export interface ExamQuestion {
+  question: string;
+  answer: string; // Model answer; empty for notes analyzed before answers were generated
+  rubric: string[]; // Points a complete answer should cover
+}
+
 export interface NoteData {
   summary: string;
-  transcript: string;
-  keyTerms: string[];
-  examQuestions: string[];
+  transcript: TranscriptSegment[];
+  keyTerms: KeyTerm[];
+  examQuestions: ExamQuestion[];
+  classQuestions: ClassQuestion[];
+  speakerNames: Record<string, string>; // Display names the user gave to speaker ids
+  personalNotes: string; // The student's own notes, never touched by analysis
+}
+
+// A saved version of a note. 'analysis' revisions hold the AI output the user's edits are compared against.
+export interface NoteRevision {
+  id: string;
+  recordingId: string;
+  date: Date;
+  source: 'analysis' | 'edit' | 'revert';
+  data: NoteData;
+}
+
+// The question is stored with the result, so past attempts still read
+// correctly after the note's questions are edited or re-analyzed
+export interface QuizAnswerResult {
+  questionIndex: number; // position in the quiz as it was taken
+  question: string;
+  modelAnswer: string;
+  answer: string;
+  score: number; // 0-100
+  feedback: string;
 }
 
+export interface QuizAttempt {
+  id: string;
+  date: Date;
+  results: QuizAnswerResult[];
+  totalScore: number; // average of the question scores, 0-100
+}
+
+export interface AnalysisProgress {
+  completed: number;
+  total: number;
+}
+
+// A moment the student flagged as important while recording
+export interface LectureMarker {
+  time: number; // active seconds from the start of the recording
+  label: string; // may be empty
+}
+
+// A long silent stretch (break, group work), in seconds of the recorded audio
+export interface SilenceRange {
+  start: number;
+  end: number;
+}
+
+// Why an analysis failed, so the note screen can say what to do about it
+export type AnalysisErrorKind =
+  | 'quota' // rate limit or usage quota exceeded
+  | 'auth' // missing or rejected API key / server address
+  | 'network' // connection dropped, timeout or server unavailable
+  | 'unsupported-audio' // the backend could not read the audio
+  | 'safety' // the model refused to respond
+  | 'invalid-output' // the response could not be parsed into a note
+  | 'invalid-input' // the recording's audio is missing or unreadable on this device
+  | 'unknown';
+
+// Top-level note sections an analysis response can be missing
+export type NoteSection = 'transcript' | 'summary' | 'keyTerms' | 'examQuestions' | 'classQuestions';
+
 export interface Recording {
   id: string;
   title: string;
+  customTitle?: boolean; // named by the timetable or the user, so analysis keeps the title
   subject: string; // New field for folder categorization
   date: Date;
   duration: number; // in seconds
-  audioBlob?: Blob; // Optional because it cannot be easily persisted in localStorage
+  audioBlob?: Blob; // In-memory only; the persisted copy lives in the audio store
   status: 'recorded' | 'processing' | 'completed' | 'error';
   data?: NoteData;
   errorMessage?: string;
+  errorKind?: AnalysisErrorKind; // set with errorMessage when analysis failed
+  incompleteSections?: NoteSection[]; // sections the model's response was missing or cut off in
+  progress?: AnalysisProgress; // Only set while status is 'processing' on long recordings
+  quizAttempts?: QuizAttempt[];
+  markers?: LectureMarker[];
+  silences?: SilenceRange[];
+  audioSize?: number; // bytes of the stored audio
+  originalAudioSize?: number; // bytes before compression; only set when the audio was compressed
+  audioDiscardedAt?: Date; // the audio was deleted to free space; the note is kept
+}
+
+// One recording waiting for (or undergoing) analysis. Persisted so the queue
+// survives a reload; `state` is 'waiting' again after one.
+export interface AnalysisJob {
+  recordingId: string;
+  enqueuedAt: Date;
+  state: 'waiting' | 'running';
+  attempts: number; // attempts started so far
+  nextAttemptAt?: Date; // set while backing off after a transient failure
+  lastError?: string;
+}
+
+export interface Flashcard {
+  id: string; // stable across sessions: derived from the recording and card content
+  recordingId: string;
+  subject: string;
+  kind: 'term' | 'question';
+  front: string;
+  back: string;
+}
+
+// Spaced repetition state of one flashcard (SM-2)
+export interface CardReview {
+  cardId: string;
+  easeFactor: number;
+  interval: number; // in days
+  repetitions: number;
+  dueDate: Date;
+  lastReviewed?: Date;
+}
+
+// Topics of one lecture as they were summarized into a course digest
+export interface DigestLecture {
+  recordingId: string;
+  fingerprint: string; // hash of the note content the topics were generated from
+  topics: string[];
+}
+
+// Cumulative overview of every analyzed lecture in a subject folder
+export interface CourseDigest {
+  subject: string;
+  overview: string;
+  lectures: DigestLecture[]; // in lecture order
+  themes: string[]; // ideas that come back across several lectures
+  keyConcepts: { term: string; reason: string }[];
+  updatedAt: Date;
+}
+
+// A transcript passage that a chat answer refers to as [number]
+export interface ChatCitation {
+  number: number;
+  recordingId: string;
+  segmentIndex: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  citations: ChatCitation[]; // only on assistant messages
+}
+
+export type NoteField = 'title' | 'summary' | 'keyTerm' | 'examQuestion' | 'classQuestion' | 'transcript';
+
+// A position inside a note to scroll to when it is opened (e.g. from a search result).
+// `nonce` changes on every request so focusing the same passage twice still scrolls.
+export interface NoteFocus {
+  field: NoteField;
+  index: number;
+  nonce: number;
+}
+
+// An in-progress recording whose audio is flushed to IndexedDB chunk by chunk,
+// so it can be recovered if the tab is closed before recording stops
+export interface RecordingSession {
+  id: string;
+  startedAt: Date;
+  duration: number; // active seconds recorded so far
+  mimeType: string;
+  markers?: LectureMarker[];
+  silences?: SilenceRange[];
+}
+
+export type AnalysisProviderId = 'gemini' | 'local';
+
+// 'lecture' keeps the notes in whatever language the lecture is taught in
+export type OutputLanguage = 'ko' | 'en' | 'lecture';
+
+export type SummaryStyle = 'concise' | 'detailed' | 'bullets';
+
+// What the generated notes should look like
+export interface AnalysisPreferences {
+  language: OutputLanguage;
+  examQuestionCount: number;
+  summaryStyle: SummaryStyle;
+  customInstructions: string; // Free-form text appended to the prompt
+}
+
+// Analysis preferences that replace the defaults for the listed subject folders
+export interface PromptTemplate extends AnalysisPreferences {
+  id: string;
+  name: string;
+  subjects: string[];
+}
+
+// 'original' stores the audio exactly as recorded or imported
+export type AudioQualityPreset = 'original' | 'standard' | 'compact';
+
+// A weekly class period in the timetable
+export interface ClassSlot {
+  id: string;
+  subject: string; // folder new recordings in this period are filed under
+  weekday: number; // 0 = Sunday ... 6 = Saturday, as in Date.getDay()
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"
+}
+
+export interface AppSettings {
+  provider: AnalysisProviderId;
+  geminiModel: string;
+  localEndpoint: string; // Base URL of a self-hosted analysis server
+  analysis: AnalysisPreferences;
+  promptTemplates: PromptTemplate[];
+  autoPauseOnSilence: boolean; // pause recording during long silences and resume when speech returns
+  audioQuality: AudioQualityPreset;
+  audioRetentionDays: number | null; // drop audio of analyzed lectures older than this; null keeps it forever
+  analysisConcurrency: number; // analyses run at the same time
+  timetable: ClassSlot[];
+  semesterStart: string | null; // "YYYY-MM-DD" in the first week of classes; week numbers count from it
 }
 
 export type ViewState = 'list' | 'detail' | 'recording';
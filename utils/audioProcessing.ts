@@ -0,0 +1,106 @@
+import { AudioQualityPreset } from '../types';
+import { decodeAudioToMono } from './audioUtils';
+import { muxOggOpus, OpusPacket } from './oggUtils';
+
+interface QualitySettings {
+  sampleRate: number;
+  bitrate: number; // bits per second
+}
+
+// Opus stays intelligible for lecture speech well below music bitrates;
+// 16kHz is the "wideband" rate speech recognition models are trained on
+const QUALITY_PRESETS: Record<Exclude<AudioQualityPreset, 'original'>, QualitySettings> = {
+  standard: { sampleRate: 16000, bitrate: 24000 },
+  compact: { sampleRate: 16000, bitrate: 12000 },
+};
+
+// Samples handed to the encoder per AudioData; the encoder splits them into 20ms frames
+const ENCODE_BLOCK_SECONDS = 1;
+// Blocks waiting in the encoder before feeding it pauses; each holds a copy of its samples
+const MAX_QUEUED_BLOCKS = 8;
+
+export interface ProcessedAudio {
+  blob: Blob;
+  originalSize: number;
+  duration?: number; // in seconds, set when the audio was decoded to compress it
+}
+
+const isOpusEncodingSupported = async (config: AudioEncoderConfig): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+const encodeOpus = async (samples: Float32Array, sampleRate: number, config: AudioEncoderConfig): Promise<OpusPacket[]> => {
+  const packets: OpusPacket[] = [];
+  let encodeError: unknown = null;
+  let resumeEncoding: (() => void) | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, duration: chunk.duration ?? 20000 });
+    },
+    error: (error) => {
+      encodeError = error;
+      resumeEncoding?.();
+    },
+  });
+  encoder.ondequeue = () => resumeEncoding?.();
+  encoder.configure(config);
+
+  const blockSize = sampleRate * ENCODE_BLOCK_SECONDS;
+  for (let offset = 0; offset < samples.length && !encodeError; offset += blockSize) {
+    // Feeding a long lecture in one go would queue a copy of all of it at once
+    while (encoder.encodeQueueSize >= MAX_QUEUED_BLOCKS && !encodeError) {
+      await new Promise<void>(resolve => { resumeEncoding = resolve; });
+      resumeEncoding = null;
+    }
+    if (encodeError) break;
+
+    // AudioData copies the samples it is given, so a view is enough
+    const block = samples.subarray(offset, offset + blockSize);
+    const audioData = new AudioData({
+      format: 'f32',
+      sampleRate,
+      numberOfChannels: 1,
+      numberOfFrames: block.length,
+      timestamp: Math.round((offset / sampleRate) * 1_000_000),
+      data: block,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+  return packets;
+};
+
+// Downmixes to mono, resamples to a speech rate and re-encodes as Ogg Opus
+// before the audio is stored and uploaded. Falls back to the original blob when
+// the preset is 'original', the browser has no Opus encoder (WebCodecs), or the
+// result would not be smaller.
+export const compressSpeechAudio = async (blob: Blob, preset: AudioQualityPreset): Promise<ProcessedAudio> => {
+  const unchanged = { blob, originalSize: blob.size };
+  if (preset === 'original') return unchanged;
+
+  const { sampleRate, bitrate } = QUALITY_PRESETS[preset];
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate };
+  if (!(await isOpusEncodingSupported(config))) return unchanged;
+
+  const decoded = await decodeAudioToMono(blob, sampleRate);
+  const duration = Math.round(decoded.samples.length / decoded.sampleRate);
+  const packets = await encodeOpus(decoded.samples, decoded.sampleRate, config);
+  if (packets.length === 0) return { ...unchanged, duration };
+
+  const compressed = muxOggOpus(packets, decoded.sampleRate);
+  if (compressed.size >= blob.size) return { ...unchanged, duration };
+  return { blob: compressed, originalSize: blob.size, duration };
+};
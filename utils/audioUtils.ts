@@ -28,4 +28,97 @@ export const formatDate = (date: Date): string => {
     hour: '2-digit',
     minute: '2-digit',
   }).format(date);
-};
\ No newline at end of file
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+// Decodes any browser-supported audio blob into mono PCM at the given rate.
+// OfflineAudioContext resamples to its own rate while decoding.
+export const decodeAudioToMono = async (blob: Blob, sampleRate: number): Promise<{ samples: Float32Array; sampleRate: number }> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await ctx.decodeAudioData(arrayBuffer);
+
+  if (buffer.numberOfChannels === 1) {
+    return { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate };
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return { samples: mono, sampleRate: buffer.sampleRate };
+};
+
+// 16-bit PCM WAV, mono
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+const IMPORT_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm',
+};
+
+export const SUPPORTED_IMPORT_EXTENSIONS = Object.keys(IMPORT_MIME_TYPES);
+
+const getExtension = (fileName: string): string => {
+  return fileName.split('.').pop()?.toLowerCase() || '';
+};
+
+// Browsers report inconsistent types for the same format (e.g. audio/x-m4a),
+// so the extension decides which mime type is stored and sent for analysis
+export const getImportMimeType = (file: File): string | null => {
+  return IMPORT_MIME_TYPES[getExtension(file.name)] || null;
+};
+
+export const stripExtension = (fileName: string): string => {
+  return fileName.replace(/\.[^.]+$/, '');
+};
+
+export const getAudioDuration = async (blob: Blob): Promise<number> => {
+  // A low sample rate keeps the decoded buffer small; only its length matters here
+  const ctx = new OfflineAudioContext(1, 1, 8000);
+  const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+  return Math.round(buffer.duration);
+};
+
+export const getAudioExtension = (mimeType: string): string => {
+  const match = Object.entries(IMPORT_MIME_TYPES).find(([, type]) => mimeType.startsWith(type));
+  return match ? match[0] : 'webm';
+};
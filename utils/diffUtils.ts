@@ -0,0 +1,95 @@
+import { NoteData } from '../types';
+import { formatTime } from './audioUtils';
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many LCS cells the diff falls back to "everything replaced"
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Longest-common-subsequence diff of two token lists; adjacent tokens of the same type are joined
+export const diffTokens = (before: string[], after: string[]): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    if (before.length > 0) push('removed', before.join(''));
+    if (after.length > 0) push('added', after.join(''));
+    return parts;
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Uint32Array(after.length + 1));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      push('same', before[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < before.length) push('removed', before[i++]);
+  while (j < after.length) push('added', after[j++]);
+
+  return parts;
+};
+
+// Word diff that keeps the original whitespace
+export const diffText = (before: string, after: string): DiffPart[] => {
+  const split = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+  return diffTokens(split(before), split(after));
+};
+
+// Line diff; each line keeps its line break so the parts concatenate back to the text
+const diffLines = (before: string, after: string): DiffPart[] => {
+  const split = (text: string) => text ? text.split('\n').map(line => `${line}\n`) : [];
+  return diffTokens(split(before), split(after));
+};
+
+export interface NoteSectionDiff {
+  label: string;
+  parts: DiffPart[];
+  changed: boolean;
+}
+
+// Each note field rendered as text, one item per line
+const noteSections = (data: NoteData): { label: string; text: string; byLine: boolean }[] => [
+  { label: '핵심 요약', text: data.summary, byLine: false },
+  { label: '내 메모', text: data.personalNotes, byLine: false },
+  { label: '주요 용어', text: data.keyTerms.map(t => `${t.term}: ${t.definition}`).join('\n'), byLine: true },
+  {
+    label: '예상 시험 문제',
+    text: data.examQuestions.map(q => [`Q. ${q.question}`, `A. ${q.answer}`, ...q.rubric.map(r => `- ${r}`)].join('\n')).join('\n'),
+    byLine: true,
+  },
+  { label: '수업 중 Q&A', text: data.classQuestions.map(q => `Q. ${q.question}\nA. ${q.answer}`).join('\n'), byLine: true },
+  { label: '전체 스크립트', text: data.transcript.map(seg => `[${formatTime(Math.floor(seg.start))}] ${seg.text}`).join('\n'), byLine: true },
+];
+
+export const diffNotes = (before: NoteData, after: NoteData): NoteSectionDiff[] => {
+  const afterSections = noteSections(after);
+  return noteSections(before).map((section, i) => {
+    const next = afterSections[i];
+    const parts = section.byLine ? diffLines(section.text, next.text) : diffText(section.text, next.text);
+    return { label: section.label, parts, changed: parts.some(part => part.type !== 'same') };
+  });
+};
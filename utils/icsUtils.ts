@@ -0,0 +1,90 @@
+// Minimal iCalendar (RFC 5545) reader for timetable imports from university
+// portals and calendar apps. Only VEVENT start/end, summary and weekly
+// recurrence days are read; times with a TZID are taken as local wall-clock
+// time, which is right as long as the classes are in the user's time zone.
+
+export interface IcsEvent {
+  summary: string;
+  start: Date;
+  end: Date;
+  // Days of a weekly RRULE (0 = Sunday), or null for a single event
+  weekdays: number[] | null;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Long lines are folded onto continuation lines that start with a space or tab
+const unfoldLines = (text: string): string[] => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+const unescapeText = (value: string): string => value
+  .replace(/\\[nN]/g, '\n')
+  .replace(/\\([,;\\])/g, '$1')
+  .trim();
+
+// "20260302T090000Z" (UTC), "20260302T090000" (local); date-only values mark all-day events
+const parseDateTime = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+// Only the hour/minute/second forms calendar apps write for events, e.g. "PT1H15M"
+const parseDurationMs = (value: string): number | null => {
+  const match = value.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (!match || !(match[1] || match[2] || match[3])) return null;
+  const [, hours, minutes, seconds] = match;
+  return ((Number(hours || 0) * 60 + Number(minutes || 0)) * 60 + Number(seconds || 0)) * 1000;
+};
+
+const parseWeeklyDays = (rrule: string): number[] | null => {
+  const rules = new Map(rrule.split(';').map(part => part.split('=') as [string, string]));
+  if (rules.get('FREQ') !== 'WEEKLY') return null;
+  const byDay = rules.get('BYDAY');
+  if (!byDay) return null;
+  const days = byDay.split(',')
+    .map(code => WEEKDAY_CODES.indexOf(code.replace(/^[+-]?\d+/, '')))
+    .filter(day => day !== -1);
+  return days.length > 0 ? days : null;
+};
+
+export const parseIcsEvents = (text: string): IcsEvent[] => {
+  const events: IcsEvent[] = [];
+  let current: Map<string, string> | null = null;
+
+  unfoldLines(text).forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      current = new Map();
+      return;
+    }
+    if (line === 'END:VEVENT' && current) {
+      const fields = current;
+      current = null;
+
+      const start = parseDateTime(fields.get('DTSTART') || '');
+      if (!start) return; // all-day or unreadable
+      const durationMs = parseDurationMs(fields.get('DURATION') || '');
+      const end = parseDateTime(fields.get('DTEND') || '')
+        ?? (durationMs !== null ? new Date(start.getTime() + durationMs) : null);
+      if (!end || end <= start) return;
+
+      events.push({
+        summary: unescapeText(fields.get('SUMMARY') || ''),
+        start,
+        end,
+        weekdays: parseWeeklyDays(fields.get('RRULE') || ''),
+      });
+      return;
+    }
+    if (!current) return;
+
+    // NAME;PARAM=...:VALUE — parameters (TZID, VALUE=DATE) are dropped
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    current.set(name, line.slice(separator + 1));
+  });
+
+  return events;
+};
@@ -0,0 +1,169 @@
+// Parsing and runtime validation of JSON returned by analysis models. Responses
+// are usually well-formed, but long lectures can hit the output token limit
+// mid-transcript and smaller local models wrap JSON in prose or code fences.
+
+// The subset of JSON Schema the app's response schemas are written in
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  maxItems?: number;
+}
+
+// Largest number of cut-back points tried when repairing a truncated response
+const MAX_REPAIR_ATTEMPTS = 200;
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+const closeAll = (stack: string[]): string => stack.slice().reverse().map(open => CLOSERS[open]).join('');
+
+const tryParse = (text: string): { ok: true; value: unknown } | { ok: false } => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+// Drops code fences and anything before the first bracket ("Here is the JSON: {...")
+const extractJsonText = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  const body = fenced ? fenced[1] : text;
+  const start = body.search(/[{[]/);
+  return start === -1 ? body : body.slice(start);
+};
+
+// Rebuilds a truncated or sloppy JSON document: trailing commas are dropped,
+// text after the root value is ignored, and an unfinished document is cut back
+// to the last complete value and closed. Returns null when nothing parses.
+const repairJson = (text: string): unknown | null => {
+  let out = '';
+  const stack: string[] = [];
+  // Places where the document can be cut and closed: right after a complete element
+  const cutPoints: { length: number; stack: string[] }[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      out += ch;
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch);
+      out += ch;
+    } else if (ch === '}' || ch === ']') {
+      if (stack.length === 0 || CLOSERS[stack[stack.length - 1]] !== ch) break;
+      stack.pop();
+      out += ch;
+      if (stack.length === 0) {
+        const parsed = tryParse(out);
+        return parsed.ok ? parsed.value : null;
+      }
+      cutPoints.push({ length: out.length, stack: stack.slice() });
+    } else if (ch === ',') {
+      if (/^\s*[}\]]/.test(text.slice(i + 1, i + 64))) continue; // trailing comma
+      cutPoints.push({ length: out.length, stack: stack.slice() });
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+
+  // Closing at the very end keeps the most content, e.g. half of the last transcript segment
+  let tail = inString ? `${out.replace(/\\$/, '')}"` : out;
+  tail = tail.replace(/[\s,:]+$/, '');
+  const closed = tryParse(tail + closeAll(stack));
+  if (closed.ok) return closed.value;
+
+  for (let i = cutPoints.length - 1; i >= Math.max(0, cutPoints.length - MAX_REPAIR_ATTEMPTS); i--) {
+    const { length, stack: openAtCut } = cutPoints[i];
+    const attempt = tryParse(out.slice(0, length) + closeAll(openAtCut));
+    if (attempt.ok) return attempt.value;
+  }
+  return null;
+};
+
+export interface ParsedModelJson {
+  value: unknown;
+  repaired: boolean; // the raw text was not valid JSON and had to be fixed up
+}
+
+// Returns null when the text is beyond repair
+export const parseModelJson = (text: string): ParsedModelJson | null => {
+  const direct = tryParse(text);
+  if (direct.ok) return { value: direct.value, repaired: false };
+
+  const value = repairJson(extractJsonText(text));
+  return value === null ? null : { value, repaired: true };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const INVALID = Symbol('invalid');
+
+const conformValue = (value: unknown, schema: JsonSchema): unknown => {
+  switch (schema.type) {
+    case 'string': {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      if (typeof text !== 'string') return INVALID;
+      return schema.enum && !schema.enum.includes(text) ? INVALID : text;
+    }
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? number : INVALID;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return value === 'true' || value === 'false' ? value === 'true' : INVALID;
+    case 'array': {
+      if (!Array.isArray(value)) return INVALID;
+      const { items: itemSchema, maxItems } = schema;
+      const items = itemSchema
+        ? value.map(item => conformValue(item, itemSchema)).filter(item => item !== INVALID)
+        : value;
+      return maxItems !== undefined ? items.slice(0, maxItems) : items;
+    }
+    case 'object': {
+      if (!isPlainObject(value)) return INVALID;
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (!(key in value)) continue;
+        const conformed = conformValue(value[key], propertySchema);
+        if (conformed !== INVALID) result[key] = conformed;
+      }
+      // An array item missing a required field (a segment without text) is dropped whole
+      const complete = (schema.required || []).every(key => key in result);
+      return complete ? result : INVALID;
+    }
+  }
+};
+
+export interface ConformedOutput {
+  value: Record<string, unknown>;
+  missing: string[]; // required top-level properties that were absent or invalid
+}
+
+// Checks a parsed response against the JSON Schema it was requested with,
+// dropping array items that do not match. The root object is accepted even
+// with required properties missing so a partial response is not thrown away.
+// Returns null if the response is not an object at all.
+export const conformToSchema = (value: unknown, schema: JsonSchema): ConformedOutput | null => {
+  if (!isPlainObject(value)) return null;
+  const conformed = conformValue(value, { ...schema, required: [] }) as Record<string, unknown>;
+  const missing = (schema.required || []).filter(key => !(key in conformed));
+  return { value: conformed, missing };
+};
@@ -0,0 +1,115 @@
+import { ClassQuestion, ExamQuestion, KeyTerm, NoteData, TranscriptSegment } from '../types';
+import { migrateTranscript } from './transcriptUtils';
+
+// Fields of a stored or parsed value of unknown shape; anything but an object has none
+const readFields = (value: unknown): Record<string, unknown> => {
+  return typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+};
+
+// Exam questions used to be plain strings without answers
+export const migrateExamQuestions = (questions: unknown): ExamQuestion[] => {
+  if (!Array.isArray(questions)) return [];
+
+  return questions.map((q: unknown) => {
+    if (typeof q === 'string') return { question: q, answer: '', rubric: [] };
+    const fields = readFields(q);
+    return {
+      question: String(fields.question ?? ''),
+      answer: String(fields.answer ?? ''),
+      rubric: Array.isArray(fields.rubric) ? fields.rubric.map(String) : [],
+    };
+  }).filter(q => q.question);
+};
+
+// Small non-cryptographic hash (FNV-1a) for stable ids and change detection
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const splitKeyTerm = (keyTerm: string): { term: string; definition: string } => {
+  const separator = keyTerm.indexOf(':');
+  if (separator === -1) return { term: keyTerm.trim(), definition: '' };
+  return {
+    term: keyTerm.slice(0, separator).trim(),
+    definition: keyTerm.slice(separator + 1).trim(),
+  };
+};
+
+// Key used to recognise the same term across notes ("Page Fault" = "page fault" = "pagefault")
+export const normalizeTermKey = (term: string): string => {
+  return term.normalize('NFC').toLowerCase().replace(/\s+/g, '');
+};
+
+export const findFirstMention = (term: string, transcript: TranscriptSegment[]): number | null => {
+  const key = normalizeTermKey(term);
+  if (!key) return null;
+  const segment = transcript.find(seg => normalizeTermKey(seg.text).includes(key));
+  return segment ? segment.start : null;
+};
+
+// Key terms used to be "term: definition" strings
+export const migrateKeyTerms = (terms: unknown, transcript: TranscriptSegment[]): KeyTerm[] => {
+  if (!Array.isArray(terms)) return [];
+
+  return terms.map((t: unknown) => {
+    const fields = readFields(t);
+    const { term, definition } = typeof t === 'string'
+      ? splitKeyTerm(t)
+      : { term: String(fields.term ?? '').trim(), definition: String(fields.definition ?? '').trim() };
+    const time = Number(fields.firstMentionTime);
+    return {
+      term,
+      definition,
+      firstMentionTime: Number.isFinite(time) && time >= 0 ? time : findFirstMention(term, transcript),
+    };
+  }).filter(t => t.term);
+};
+
+// Notes analyzed before speaker diarization have no class Q&A
+export const migrateClassQuestions = (questions: unknown): ClassQuestion[] => {
+  if (!Array.isArray(questions)) return [];
+
+  return questions.map((q: unknown) => {
+    const fields = readFields(q);
+    return {
+      question: String(fields.question ?? ''),
+      answer: String(fields.answer ?? ''),
+      time: Number(fields.time) || 0,
+    };
+  }).filter(q => q.question);
+};
+
+const migrateSpeakerNames = (names: unknown): Record<string, string> => {
+  if (!names || typeof names !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(names).filter(([, name]) => typeof name === 'string' && name.trim())
+  ) as Record<string, string>;
+};
+
+// Brings note data of any older shape (stored or freshly parsed) up to the current `NoteData` type
+export const normalizeNoteData = (data: unknown, duration: number): NoteData => {
+  const fields = readFields(data);
+  const transcript = migrateTranscript(fields.transcript, duration);
+  return {
+    ...fields,
+    summary: String(fields.summary ?? ''),
+    transcript,
+    keyTerms: migrateKeyTerms(fields.keyTerms, transcript),
+    examQuestions: migrateExamQuestions(fields.examQuestions),
+    classQuestions: migrateClassQuestions(fields.classQuestions),
+    speakerNames: migrateSpeakerNames(fields.speakerNames),
+    personalNotes: String(fields.personalNotes ?? ''),
+  };
+};
+
+// A new analysis replaces what the model produced but keeps what the student
+// added to the note (their own notes and the names they gave speakers)
+export const mergeAnalysisResult = (previous: NoteData | undefined, result: NoteData): NoteData => {
+  if (!previous) return result;
+  return { ...result, personalNotes: previous.personalNotes, speakerNames: previous.speakerNames };
+};
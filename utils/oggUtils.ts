@@ -0,0 +1,137 @@
+// Minimal Ogg muxer for a single mono Opus stream (RFC 3533 / RFC 7845).
+// Packets come from WebCodecs' AudioEncoder, which only produces raw Opus
+// frames; browsers need the Ogg container to decode and play them.
+
+export interface OpusPacket {
+  data: Uint8Array;
+  duration: number; // microseconds
+}
+
+// Opus granule positions always count 48kHz samples, whatever the input rate
+const GRANULE_RATE = 48000;
+// Samples the decoder discards at the start; libopus' encoder delay at 48kHz
+const PRE_SKIP = 312;
+// A page holds at most 255 lacing values; flushing earlier keeps seeking cheap
+const MAX_PAGE_SEGMENTS = 255;
+const MAX_PAGE_DURATION_US = 1_000_000;
+
+// Ogg uses the non-reflected CRC-32 (polynomial 0x04c11db7, no final xor),
+// unlike the one in zipUtils
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n << 24;
+    for (let k = 0; k < 8; k++) {
+      c = c & 0x80000000 ? (c << 1) ^ 0x04c11db7 : c << 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = (CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff] ^ (crc << 8)) >>> 0;
+  }
+  return crc;
+};
+
+const lacingValues = (size: number): number[] => {
+  // A packet whose size is a multiple of 255 ends with a 0 so the reader knows it is complete
+  const values = new Array(Math.floor(size / 255)).fill(255);
+  values.push(size % 255);
+  return values;
+};
+
+const buildPage = (
+  packets: Uint8Array[],
+  granule: number,
+  serial: number,
+  sequence: number,
+  flags: number
+): Uint8Array => {
+  const segments = packets.flatMap(packet => lacingValues(packet.length));
+  const bodySize = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + segments.length + bodySize);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(4, 0); // version
+  view.setUint8(5, flags);
+  // 64-bit granule position, split since DataView has no safe 64-bit integer setter
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint32(22, 0, true); // CRC, filled in below
+  view.setUint8(26, segments.length);
+  page.set(segments, 27);
+
+  let offset = 27 + segments.length;
+  packets.forEach(packet => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+
+  view.setUint32(22, crc32(page), true);
+  return page;
+};
+
+const buildOpusHead = (inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1); // version
+  view.setUint8(9, 1); // channels
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  view.setUint8(18, 0); // channel mapping family: mono/stereo
+  return head;
+};
+
+const buildOpusTags = (): Uint8Array => {
+  const vendor = new TextEncoder().encode('profnote');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // no user comments
+  return tags;
+};
+
+export const muxOggOpus = (packets: OpusPacket[], inputSampleRate: number): Blob => {
+  const serial = Math.floor(Math.random() * 0xffffffff);
+  const pages: Uint8Array[] = [
+    buildPage([buildOpusHead(inputSampleRate)], 0, serial, 0, 0x02), // beginning of stream
+    buildPage([buildOpusTags()], 0, serial, 1, 0),
+  ];
+
+  let granule = PRE_SKIP;
+  let pending: Uint8Array[] = [];
+  let pendingSegments = 0;
+  let pendingDuration = 0;
+
+  const flush = (isLast: boolean) => {
+    pages.push(buildPage(pending, granule, serial, pages.length, isLast ? 0x04 : 0));
+    pending = [];
+    pendingSegments = 0;
+    pendingDuration = 0;
+  };
+
+  packets.forEach((packet, i) => {
+    const segments = lacingValues(packet.data.length).length;
+    if (pending.length > 0 && (pendingSegments + segments > MAX_PAGE_SEGMENTS || pendingDuration >= MAX_PAGE_DURATION_US)) {
+      flush(false);
+    }
+    pending.push(packet.data);
+    pendingSegments += segments;
+    pendingDuration += packet.duration;
+    granule += Math.round((packet.duration * GRANULE_RATE) / 1_000_000);
+    if (i === packets.length - 1) flush(true);
+  });
+
+  return new Blob(pages as BlobPart[], { type: 'audio/ogg' });
+};
@@ -0,0 +1,61 @@
+import { SilenceRange } from '../types';
+
+// RMS level (0..1 full scale) below which a frame counts as silence. Quiet
+// classroom background noise sits well below this; speech through a laptop
+// microphone sits well above it.
+const SILENCE_RMS_THRESHOLD = 0.01;
+
+// Silent stretches shorter than this are ordinary pauses in speech, not breaks
+export const MIN_SILENCE_SECONDS = 20;
+
+// Root-mean-square level of the analyser's current time-domain window
+export const measureLevel = (analyser: AnalyserNode, buffer: Float32Array): number => {
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i];
+  }
+  return Math.sqrt(sum / buffer.length);
+};
+
+export const isSilentLevel = (level: number): boolean => level < SILENCE_RMS_THRESHOLD;
+
+export const totalSilence = (silences: SilenceRange[]): number => {
+  return silences.reduce((sum, range) => sum + (range.end - range.start), 0);
+};
+
+// The silent range containing `time`, if any
+export const findSilence = (silences: SilenceRange[], time: number): SilenceRange | undefined => {
+  return silences.find(range => time >= range.start && time < range.end);
+};
+
+// Parts of a recording of `duration` seconds that are not silent, in order
+export const audibleRanges = (silences: SilenceRange[], duration: number): SilenceRange[] => {
+  const ranges: SilenceRange[] = [];
+  let cursor = 0;
+  [...silences].sort((a, b) => a.start - b.start).forEach(range => {
+    if (range.start > cursor) ranges.push({ start: cursor, end: Math.min(range.start, duration) });
+    cursor = Math.max(cursor, range.end);
+  });
+  if (cursor < duration) ranges.push({ start: cursor, end: duration });
+  return ranges.filter(range => range.end > range.start);
+};
+
+// Maps a time in the original recording onto the recording with silences cut out.
+// Times inside a silent range map to where that range was cut.
+export const toAudibleTime = (silences: SilenceRange[], time: number): number => {
+  const removed = silences.reduce((sum, range) => {
+    if (range.start >= time) return sum;
+    return sum + Math.min(range.end, time) - range.start;
+  }, 0);
+  return time - removed;
+};
+
+// Inverse of toAudibleTime: maps a time in the cut recording back onto the original
+export const toOriginalTime = (silences: SilenceRange[], time: number): number => {
+  let original = time;
+  [...silences].sort((a, b) => a.start - b.start).forEach(range => {
+    if (range.start <= original) original += range.end - range.start;
+  });
+  return original;
+};
@@ -0,0 +1,58 @@
+import { CardReview } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// Answer quality on the SM-2 scale: 0 (blackout) .. 5 (perfect recall)
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const createReview = (cardId: string, now: Date = new Date()): CardReview => ({
+  cardId,
+  easeFactor: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueDate: now,
+});
+
+// SuperMemo-2: a failed answer (quality < 3) restarts the repetition count,
+// a successful one grows the interval by the card's ease factor, and the
+// ease factor itself is nudged up or down by how easy the answer was.
+export const applyReview = (review: CardReview, quality: ReviewQuality, now: Date = new Date()): CardReview => {
+  let { easeFactor, interval, repetitions } = review;
+
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(interval * easeFactor);
+  }
+
+  easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    ...review,
+    easeFactor,
+    interval,
+    repetitions,
+    dueDate: new Date(now.getTime() + interval * DAY_MS),
+    lastReviewed: now,
+  };
+};
+
+export const endOfDay = (date: Date): Date => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+export const isDue = (review: CardReview | undefined, now: Date = new Date()): boolean => {
+  // Cards that were never reviewed are due right away
+  if (!review) return true;
+  return review.dueDate.getTime() <= endOfDay(now).getTime();
+};
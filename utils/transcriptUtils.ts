@@ -0,0 +1,95 @@
+import { TranscriptSegment } from '../types';
+
+// Older notes stored the transcript as one flat string. We split it into
+// sentences and spread them over the recording length proportionally to their
+// character count, so the timestamps are estimates rather than exact positions.
+export const migrateTranscript = (transcript: unknown, duration: number): TranscriptSegment[] => {
+  if (Array.isArray(transcript)) {
+    return transcript
+      .filter((seg: unknown): seg is Record<string, unknown> & { text: string } =>
+        typeof seg === 'object' && seg !== null && typeof (seg as { text?: unknown }).text === 'string')
+      .map(seg => ({
+        start: Number(seg.start) || 0,
+        end: Number(seg.end) || Number(seg.start) || 0,
+        text: seg.text,
+        ...(typeof seg.speaker === 'string' && seg.speaker ? { speaker: seg.speaker } : {}),
+      }));
+  }
+
+  if (typeof transcript !== 'string' || !transcript.trim()) return [];
+
+  const sentences = transcript
+    .split(/(?<=[.!?。])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+  const totalChars = sentences.reduce((sum, s) => sum + s.length, 0) || 1;
+  let cursor = 0;
+
+  return sentences.map(text => {
+    const start = (cursor / totalChars) * duration;
+    cursor += text.length;
+    const end = (cursor / totalChars) * duration;
+    return { start: Math.floor(start), end: Math.floor(end), text };
+  });
+};
+
+// Speaker ids come from the analysis ("professor", "student-1", ...) and can be renamed by the user
+export const getSpeakerName = (speaker: string, speakerNames: Record<string, string> = {}): string => {
+  if (speakerNames[speaker]) return speakerNames[speaker];
+  if (speaker === 'professor') return '교수님';
+  const student = speaker.match(/^student-(\d+)$/);
+  if (student) return `학생 ${student[1]}`;
+  return speaker;
+};
+
+// Speaker ids in order of first appearance
+export const listSpeakers = (segments: TranscriptSegment[]): string[] => {
+  return Array.from(new Set(segments.map(seg => seg.speaker).filter((s): s is string => !!s)));
+};
+
+// With `speakerNames`, each speaker turn is prefixed with the speaker's name
+export const transcriptToText = (segments: TranscriptSegment[], speakerNames?: Record<string, string>): string => {
+  if (!speakerNames) return segments.map(seg => seg.text).join('\n');
+
+  return segments.map((seg, i) => {
+    const isNewTurn = seg.speaker && seg.speaker !== segments[i - 1]?.speaker;
+    return isNewTurn ? `${getSpeakerName(seg.speaker!, speakerNames)}: ${seg.text}` : seg.text;
+  }).join('\n');
+};
+
+export const findActiveSegment = (segments: TranscriptSegment[], time: number): number => {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (time >= segments[i].start) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+export interface TranscriptChunk {
+  offset: number; // chunk start in seconds, relative to the full recording
+  segments: TranscriptSegment[]; // timestamps relative to the chunk
+}
+
+// Chunks overlap by `overlap` seconds. Each chunk owns the segments that start
+// between the midpoints of its overlaps with its neighbours, so a sentence that
+// was transcribed twice is kept only once.
+export const mergeTranscriptChunks = (chunks: TranscriptChunk[], overlap: number): TranscriptSegment[] => {
+  const merged: TranscriptSegment[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const lower = i === 0 ? -Infinity : chunk.offset + overlap / 2;
+    const next = chunks[i + 1];
+    const upper = next ? next.offset + overlap / 2 : Infinity;
+
+    chunk.segments.forEach(seg => {
+      const start = seg.start + chunk.offset;
+      if (start >= lower && start < upper) {
+        merged.push({ ...seg, start, end: seg.end + chunk.offset });
+      }
+    });
+  });
+
+  return merged;
+};